@@ -0,0 +1,1014 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ComputeBudgetProgram, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { createRpc, Rpc } from '@lightprotocol/stateless.js';
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+import type { EventRecord, PoolRecord, ClaimRecord, ClaimCodeRecord } from '../src/lib/db';
+import { ClaimServiceStore } from './store';
+import { verifyRotationToken, RotationTokenError, ROTATION_NONCE_USED_MESSAGE } from '../src/utils/rotatingQr';
+import { verifyEventWrite, EventWriteError } from '../src/utils/eventWrites';
+import { hashClaimCode, isValidClaimCode } from '../src/utils/claimCodes';
+import { isWalletAllowlisted } from '../src/utils/allowlist';
+import { getClaimWindowState } from '../src/utils/claimWindow';
+import { getSupplyTotal, hasSupplyForClaim, SOLD_OUT_MESSAGE } from '../src/utils/supply';
+import { canSponsorClaim, estimateSponsoredClaimFee } from '../src/utils/feeSponsorship';
+import { parseSolanaPayClaimParams, SolanaPayClaimParams } from '../src/utils/solanaPay';
+import { ACTIONS_CLAIM_PATH, ACTIONS_VERSION, BLOCKCHAIN_IDS, getServiceActionsJson } from '../src/utils/solanaActions';
+import { buildClaimTransferTransaction, verifyClaimTransferTransaction } from '../src/utils/token/compression/claimTransfer';
+
+/**
+ * Local stand-in for the claim service. It exposes the same API the web app
+ * uses through `claimServiceClient.ts`, so events created on one device can be
+ * claimed from another. Point the app at it with VITE_CLAIM_SERVICE_URL.
+ */
+
+const PORT = Number(process.env.CLAIM_SERVICE_PORT || 8787);
+const DATA_FILE = process.env.CLAIM_SERVICE_DATA || '.claim-service/data.json';
+const COMPUTE_BUDGET_SET_PRICE = 3; // SetComputeUnitPrice instruction discriminator
+// Blocks a blockhash stays usable for, so a co-signed transfer expires at most this many blocks later
+const MAX_BLOCKHASH_AGE_BLOCKS = 150;
+// Fields the creator can change once an event exists. Its details, creator and
+// creation time are fixed, and the claim authority is registered by the service.
+const EVENT_UPDATE_FIELDS = [
+  'mintAddress', 'transactionId', 'manifestSignature', 'claimAuthority', 'rotatingQr',
+  'requiresClaimCode', 'allowlist', 'claimOpensAt', 'claimClosesAt', 'feeSponsorship', 'setup'
+];
+// What clients may report about their claim transaction, everything else is set by the service
+const CLAIM_UPDATE_FIELDS = ['status', 'transactionId', 'errorMessage', 'lastValidBlockHeight', 'source'];
+// Needed to confirm claims and to build Solana Pay claim transactions, which read compressed state
+const RPC_URL = process.env.CLAIM_SERVICE_RPC_URL;
+// Wallets show this icon on Solana Pay requests for events without an image URL
+const APP_URL = process.env.CLAIM_SERVICE_APP_URL || 'http://localhost:8080';
+const CLAIM_RECONCILE_MS = 15_000;
+// In-app claims that were never co-signed stop holding supply after this long
+const ABANDONED_CLAIM_MS = 10 * 60_000;
+const CLUSTER = process.env.CLAIM_SERVICE_CLUSTER || 'devnet';
+
+const store = new ClaimServiceStore(DATA_FILE);
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// What a route needs to check who signed a change
+interface RouteRequest {
+  method: string;
+  path: string;
+  authorization: string | undefined;
+}
+
+type Handler = (
+  params: string[],
+  body: unknown,
+  query: URLSearchParams,
+  request: RouteRequest
+) => unknown | Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+// Solana Actions clients require the extra headers on every response
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Content-Encoding, Accept-Encoding',
+  'Access-Control-Expose-Headers': 'X-Action-Version, X-Blockchain-Ids',
+  'X-Action-Version': ACTIONS_VERSION,
+  'X-Blockchain-Ids': BLOCKCHAIN_IDS[CLUSTER] || BLOCKCHAIN_IDS.devnet
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const findEvent = (eventId: string): EventRecord => {
+  const event = store.events.find(e => e.id === eventId);
+  if (!event) {
+    throw new HttpError(404, `Event ${eventId} not found`);
+  }
+  return event;
+};
+
+const findClaim = (claimId: number): ClaimRecord => {
+  const claim = store.claims.find(c => c.id === claimId);
+  if (!claim) {
+    throw new HttpError(404, `Claim ${claimId} not found`);
+  }
+  return claim;
+};
+
+const findClaimCode = (eventId: string, codeHash: string): ClaimCodeRecord => {
+  const code = store.claimCodes.find(c => c.eventId === eventId && c.codeHash === codeHash);
+  if (!code) {
+    throw new HttpError(404, 'This claim code is not valid for this event.');
+  }
+  return code;
+};
+
+const filterBy = <T extends object>(records: T[], query: URLSearchParams, keys: (keyof T & string)[]) =>
+  records.filter(record => keys.every(key => !query.has(key) || String(record[key]) === query.get(key)));
+
+/**
+ * Checks that a change was signed for `wallet`: the event's creator for
+ * changes to an event, its pool, its claim codes or its airdrops, and the
+ * claiming wallet for its own claims
+ */
+const assertSignedBy = (wallet: string, request: RouteRequest, body: unknown) => {
+  try {
+    verifyEventWrite(wallet, request.method, request.path, JSON.stringify(body), request.authorization);
+  } catch (error) {
+    if (error instanceof EventWriteError) {
+      throw new HttpError(401, error.message);
+    }
+    throw error;
+  }
+};
+
+// Clients only ever send back the claim authority the service registered
+const checkClaimAuthority = (eventId: string, claimAuthority: string | undefined) => {
+  const authority = store.claimAuthorities.find(a => a.eventId === eventId);
+  if (claimAuthority !== undefined && claimAuthority !== authority?.publicKey) {
+    throw new HttpError(400, `Claim authority ${claimAuthority} is not the one registered for event ${eventId}`);
+  }
+};
+
+/**
+ * Applies a change to an existing event. Fields outside EVENT_UPDATE_FIELDS
+ * may be sent back, e.g. by a full save, but not with a different value. A
+ * field sent as null is cleared, the same as in the app's offline cache.
+ */
+const updateEvent = (event: EventRecord, update: Partial<EventRecord>): EventRecord => {
+  const fixed = (Object.keys(update) as (keyof EventRecord)[]).filter(field =>
+    !EVENT_UPDATE_FIELDS.includes(field) && JSON.stringify(update[field]) !== JSON.stringify(event[field])
+  );
+  if (fixed.length > 0) {
+    throw new HttpError(400, `Event fields cannot be changed after creation: ${fixed.join(', ')}`);
+  }
+  checkClaimAuthority(event.id, update.claimAuthority);
+
+  Object.assign(event, update);
+  (Object.keys(update) as (keyof EventRecord)[])
+    .filter(field => update[field] === null)
+    .forEach(field => delete event[field]);
+  store.save();
+  return event;
+};
+
+/**
+ * A claim gets one co-signed transfer at a time. Another one is only signed
+ * once the earlier transfer can no longer land, and never for a sponsored claim
+ * whose failed transfer already spent the fee it reserved.
+ */
+const assertNoLiveClaimTransfer = async (claim: ClaimRecord) => {
+  if (!claim.transactionId) {
+    return;
+  }
+  const lightConnection = getRpc();
+  const { value: [status] } = await lightConnection.getSignatureStatuses([claim.transactionId], { searchTransactionHistory: true });
+  if (status && !status.err) {
+    throw new HttpError(409, `The transfer for claim ${claim.id} is already on chain`);
+  }
+  if (status?.err && claim.sponsoredFeeLamports !== undefined) {
+    throw new HttpError(409, `The fee reserved for claim ${claim.id} was spent by its failed transfer`);
+  }
+  if (!status && (!claim.lastValidBlockHeight || await lightConnection.getBlockHeight('confirmed') <= claim.lastValidBlockHeight)) {
+    throw new HttpError(409, `Claim ${claim.id} already has a transfer in flight. Try again once it has expired.`);
+  }
+};
+
+/**
+ * Co-signs a claim transaction with the event's claim authority after checking
+ * that it is a plain compressed token transfer paid for by the claiming wallet,
+ * or by the claim authority itself when the claim reserved a sponsored fee.
+ * The transfer is decoded, so only one token of the event's mint to the
+ * claiming wallet gets the authority's signature. The claiming wallet signs
+ * first, so the signature and expiry of every co-signed transfer are recorded
+ * on the claim.
+ */
+const cosignClaim = async (eventId: string, claimId: number, encodedTransaction: string): Promise<string> => {
+  const claim = findClaim(claimId);
+  if (claim.eventId !== eventId) {
+    throw new HttpError(400, `Claim ${claimId} does not belong to event ${eventId}`);
+  }
+  if (claim.status !== 'pending') {
+    throw new HttpError(409, `Claim ${claimId} is already ${claim.status}`);
+  }
+  if (claim.source === 'airdrop') {
+    throw new HttpError(400, `Claim ${claimId} is an airdrop and is delivered by the organizer`);
+  }
+
+  const authorityRecord = store.claimAuthorities.find(a => a.eventId === eventId);
+  if (!authorityRecord) {
+    throw new HttpError(404, `No claim authority is registered for event ${eventId}`);
+  }
+  const authority = Keypair.fromSecretKey(bs58.decode(authorityRecord.secretKey));
+  const event = findEvent(eventId);
+  if (!event.mintAddress) {
+    throw new HttpError(409, `Event ${eventId} has no mint yet`);
+  }
+
+  let transaction: VersionedTransaction;
+  try {
+    transaction = VersionedTransaction.deserialize(Buffer.from(encodedTransaction, 'base64'));
+  } catch {
+    throw new HttpError(400, 'Claim transaction could not be decoded');
+  }
+
+  const { header, staticAccountKeys, compiledInstructions } = transaction.message;
+  const sponsored = claim.sponsoredFeeLamports !== undefined;
+  const expectedFeePayer = sponsored ? authorityRecord.publicKey : claim.walletAddress;
+  if (staticAccountKeys[0].toBase58() !== expectedFeePayer) {
+    throw new HttpError(400, sponsored
+      ? 'Sponsored claim transactions must be paid for by the claim authority'
+      : 'Claim transaction must be paid for by the claiming wallet');
+  }
+  if (!sponsored && !ed25519.verify(transaction.signatures[0], transaction.message.serialize(), staticAccountKeys[0].toBytes())) {
+    throw new HttpError(400, 'Claim transaction must be signed by the claiming wallet before it is co-signed');
+  }
+
+  try {
+    verifyClaimTransferTransaction(transaction, {
+      mint: new PublicKey(event.mintAddress),
+      claimAuthority: authority.publicKey,
+      recipient: new PublicKey(claim.walletAddress),
+      decimals: event.decimals || 0
+    });
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : 'Claim transaction is not a valid claim transfer');
+  }
+
+  // The reserved fee only covers the base fees, so a sponsored claim can't add
+  // signers or a priority fee that would spend more of the budget
+  if (sponsored) {
+    const setsPriorityFee = compiledInstructions.some(ix =>
+      staticAccountKeys[ix.programIdIndex].equals(ComputeBudgetProgram.programId) &&
+      ix.data[0] === COMPUTE_BUDGET_SET_PRICE
+    );
+    if (header.numRequiredSignatures !== 1 || setsPriorityFee ||
+        estimateSponsoredClaimFee(header.numRequiredSignatures) !== claim.sponsoredFeeLamports) {
+      throw new HttpError(400, 'Sponsored claim transaction costs more than its reserved fee');
+    }
+  }
+
+  const alreadyClaimed = store.claims.some(c =>
+    c.eventId === eventId && c.walletAddress === claim.walletAddress && c.status === 'confirmed'
+  );
+  if (alreadyClaimed) {
+    throw new HttpError(409, 'This wallet has already claimed a token for this event');
+  }
+
+  const previousTransactionId = claim.transactionId;
+  await assertNoLiveClaimTransfer(claim);
+
+  // The blockhash is at most as old as the current block, which bounds when the transfer expires
+  const lightConnection = getRpc();
+  const { value: blockhashValid } = await lightConnection.isBlockhashValid(transaction.message.recentBlockhash, { commitment: 'confirmed' });
+  if (!blockhashValid) {
+    throw new HttpError(400, 'Claim transaction has expired, please try again');
+  }
+  const lastValidBlockHeight = await lightConnection.getBlockHeight('confirmed') + MAX_BLOCKHASH_AGE_BLOCKS;
+
+  // Checked again after the RPC calls, which another co-sign of this claim may have overtaken
+  if (claim.status !== 'pending' || claim.transactionId !== previousTransactionId) {
+    throw new HttpError(409, `Claim ${claimId} already has a transfer in flight. Try again once it has expired.`);
+  }
+
+  transaction.sign([authority]);
+  Object.assign(claim, { transactionId: bs58.encode(transaction.signatures[0]), lastValidBlockHeight });
+  store.save();
+  return Buffer.from(transaction.serialize()).toString('base64');
+};
+
+/**
+ * Checks a new claim against the event's rules. `otherClaims` are the claims
+ * it competes with for nonces, codes, supply and fee budget.
+ */
+const checkClaim = (claimData: ClaimRecord, event: EventRecord, otherClaims: ClaimRecord[]) => {
+  // Airdrops are minted by the organizer and never co-signed by the claim
+  // authority, so the attendee-facing checks below don't apply to them
+  const isAirdrop = claimData.source === 'airdrop';
+  const eventClaims = otherClaims.filter(c => c.eventId === event.id);
+  if (!isAirdrop && getClaimWindowState(event).status !== 'open') {
+    throw new HttpError(403, 'Claims for this event are not open');
+  }
+  if (!isAirdrop && !isWalletAllowlisted(event, claimData.walletAddress)) {
+    throw new HttpError(403, 'This wallet is not on the allowlist for this event');
+  }
+  if (!isAirdrop && event.rotatingQr?.enabled) {
+    try {
+      verifyRotationToken(event.id, event.creator, event.rotatingQr, claimData.rotationToken, eventClaims);
+    } catch (error) {
+      if (error instanceof RotationTokenError) {
+        throw new HttpError(403, error.message);
+      }
+      throw error;
+    }
+    if (store.rotationNonces.some(n => n.eventId === event.id && n.nonce === claimData.rotationToken?.nonce)) {
+      throw new HttpError(409, ROTATION_NONCE_USED_MESSAGE);
+    }
+  }
+  if (!isAirdrop && event.requiresClaimCode) {
+    const claimCode = claimData.claimCodeHash
+      ? store.claimCodes.find(c => c.eventId === event.id && c.codeHash === claimData.claimCodeHash)
+      : undefined;
+    if (!claimCode || claimCode.status !== 'used' || claimCode.claimedBy !== claimData.walletAddress) {
+      throw new HttpError(403, 'This event requires a redeemed claim code.');
+    }
+    if (otherClaims.some(c => c.claimCodeHash === claimData.claimCodeHash && c.status !== 'failed')) {
+      throw new HttpError(409, 'This claim code has already been used.');
+    }
+  }
+  if (!isAirdrop) {
+    const pool = store.pools.find(p => p.eventId === event.id);
+    if (!hasSupplyForClaim(getSupplyTotal(event, pool), eventClaims)) {
+      throw new HttpError(409, SOLD_OUT_MESSAGE);
+    }
+  }
+  if (claimData.sponsoredFeeLamports !== undefined) {
+    const fee = estimateSponsoredClaimFee();
+    if (isAirdrop || claimData.sponsoredFeeLamports !== fee || !canSponsorClaim(event, eventClaims, fee)) {
+      throw new HttpError(403, 'The fee budget for this event cannot cover this claim');
+    }
+  }
+};
+
+// Used nonces outlive the claims made with them, which a retried wallet claim overwrites
+const recordRotationNonce = (claim: ClaimRecord) => {
+  if (claim.rotationToken) {
+    store.rotationNonces.push({ eventId: claim.eventId, nonce: claim.rotationToken.nonce, usedAt: new Date().toISOString() });
+  }
+};
+
+const createClaim = (claimData: ClaimRecord): ClaimRecord => {
+  const event = findEvent(claimData.eventId);
+  // Checked and inserted in one step so two devices cannot claim for the same wallet
+  const duplicate = store.claims.some(c =>
+    c.eventId === claimData.eventId && c.walletAddress === claimData.walletAddress
+  );
+  if (duplicate) {
+    throw new HttpError(409, 'You have already claimed a token for this event');
+  }
+  checkClaim(claimData, event, store.claims);
+  // Claims only move on once their transaction is found on chain, and their
+  // age decides when an abandoned one stops holding supply
+  const claim: ClaimRecord = {
+    ...claimData,
+    status: 'pending',
+    transactionId: undefined,
+    lastValidBlockHeight: undefined,
+    createdAt: new Date().toISOString(),
+    id: store.nextId()
+  };
+  store.claims.push(claim);
+  recordRotationNonce(claim);
+  store.save();
+  return claim;
+};
+
+const redeemClaimCode = async (eventId: string, code: string | undefined, walletAddress: string | undefined) => {
+  if (!code || !isValidClaimCode(code)) {
+    throw new HttpError(400, 'That does not look like a claim code. Please check it and try again.');
+  }
+  if (!walletAddress) {
+    throw new HttpError(400, 'Missing wallet address');
+  }
+  const claimCode = findClaimCode(eventId, await hashClaimCode(eventId, code));
+  // Checked and updated in one step so a code can only be redeemed once
+  if (claimCode.status === 'used') {
+    throw new HttpError(409, 'This claim code has already been used.');
+  }
+  Object.assign(claimCode, { status: 'used', claimedBy: walletAddress, usedAt: new Date().toISOString() });
+  store.save();
+  return claimCode;
+};
+
+const releaseClaimCode = (eventId: string, codeHash: string) => {
+  const claimCode = findClaimCode(eventId, codeHash);
+  const confirmed = store.claims.some(c => c.claimCodeHash === codeHash && c.status === 'confirmed');
+  if (confirmed) {
+    throw new HttpError(409, 'This claim code was used by a confirmed claim.');
+  }
+  Object.assign(claimCode, { status: 'unused', claimedBy: undefined, usedAt: undefined });
+  store.save();
+  return claimCode;
+};
+
+// Claims whose transaction is sent by the wallet rather than the app
+type WalletSentSource = 'solana-pay' | 'action';
+
+const isWalletSentClaim = (claim: ClaimRecord) =>
+  claim.source === 'solana-pay' || claim.source === 'action';
+
+// Airdrops are created and reported by the organizer, other claims by the claiming wallet
+const getClaimSigner = (claim: Pick<ClaimRecord, 'eventId' | 'walletAddress' | 'source'>) =>
+  claim.source === 'airdrop' ? findEvent(claim.eventId).creator : claim.walletAddress;
+
+let rpc: Rpc | null = null;
+
+const getRpc = (): Rpc => {
+  if (!RPC_URL) {
+    throw new HttpError(503, 'Claims cannot be checked on chain: CLAIM_SERVICE_RPC_URL is not set');
+  }
+  rpc ??= createRpc(RPC_URL, RPC_URL, RPC_URL);
+  return rpc;
+};
+
+const failClaim = (claim: ClaimRecord, errorMessage: string) => {
+  Object.assign(claim, { status: 'failed', errorMessage });
+  if (claim.claimCodeHash) {
+    try {
+      releaseClaimCode(claim.eventId, claim.claimCodeHash);
+    } catch (error) {
+      console.warn(`Could not release the claim code of claim ${claim.id}:`, error);
+    }
+  }
+};
+
+/**
+ * Checks that a landed transaction gave the claiming wallet a token of the
+ * event's mint, so a claim can't be confirmed with some other transaction
+ */
+const assertDeliversClaimToken = async (claim: ClaimRecord, transactionId: string) => {
+  const { mintAddress } = findEvent(claim.eventId);
+  const transaction = await getRpc().getTransactionWithCompressionInfo(transactionId);
+  const delivered = transaction?.compressionInfo.openedAccounts.some(({ maybeTokenData }) =>
+    maybeTokenData !== null &&
+    maybeTokenData.mint.toBase58() === mintAddress &&
+    maybeTokenData.owner.toBase58() === claim.walletAddress &&
+    !maybeTokenData.amount.isZero()
+  );
+  if (!delivered) {
+    throw new HttpError(409, `Transaction ${transactionId} did not deliver this event's token to ${claim.walletAddress}`);
+  }
+};
+
+/**
+ * Applies a client's report on its claim transaction. Only the transaction
+ * fields can change, plus the source when an airdrop takes over a failed
+ * claim, and a claim is only confirmed once its signature has landed. The
+ * transfer of an attendee claim is the one recorded when it was co-signed. A
+ * confirmed claim is final, and only airdrops are retried on the same record,
+ * so a claim can't be reopened to get another co-signature.
+ */
+const updateClaim = async (claimId: number, update: Partial<ClaimRecord>): Promise<ClaimRecord> => {
+  const claim = findClaim(claimId);
+  const rejected = Object.keys(update).filter(field => !CLAIM_UPDATE_FIELDS.includes(field));
+  if (rejected.length > 0) {
+    throw new HttpError(400, `Claim fields cannot be changed: ${rejected.join(', ')}`);
+  }
+
+  const status = update.status ?? claim.status;
+  const transactionId = update.transactionId ?? claim.transactionId;
+  if (claim.status === 'confirmed') {
+    if (status === 'confirmed' && transactionId === claim.transactionId) {
+      return claim;
+    }
+    throw new HttpError(409, `Claim ${claimId} is already confirmed`);
+  }
+  // An airdrop may take over a failed claim, which it then delivers itself
+  const source = update.source ?? claim.source;
+  if (source !== claim.source && (source !== 'airdrop' || claim.status !== 'failed')) {
+    throw new HttpError(409, 'Only a failed claim can be handed to an airdrop');
+  }
+  if (status === 'pending' && claim.status === 'failed' && source !== 'airdrop') {
+    throw new HttpError(409, `Claim ${claimId} has failed, start a new claim instead`);
+  }
+  // The service records the transfers it co-signs, clients can only report on them
+  const changesTransfer = (update.transactionId !== undefined && update.transactionId !== claim.transactionId) ||
+    (update.lastValidBlockHeight !== undefined && update.lastValidBlockHeight !== claim.lastValidBlockHeight);
+  if (source !== 'airdrop' && changesTransfer) {
+    throw new HttpError(400, `The transfer of claim ${claimId} is recorded when it is co-signed`);
+  }
+
+  if (status === 'confirmed') {
+    if (!transactionId) {
+      throw new HttpError(400, 'A claim can only be confirmed with its transaction signature');
+    }
+    const { value: [signatureStatus] } = await getRpc().getSignatureStatuses([transactionId], { searchTransactionHistory: true });
+    if (!signatureStatus || signatureStatus.err || signatureStatus.confirmationStatus === 'processed') {
+      throw new HttpError(409, `Transaction ${transactionId} has not landed`);
+    }
+    await assertDeliversClaimToken(claim, transactionId);
+  }
+
+  Object.assign(claim, update);
+  store.save();
+  return claim;
+};
+
+/**
+ * Wallets send Solana Pay and Action transactions themselves, and an attendee
+ * can leave an in-app claim half way, so the service has to find out what
+ * happened to them. A claim is confirmed once its signature lands or the
+ * recipient holds the token, and failed once its blockhash has expired. In-app
+ * claims that were never co-signed fail after ABANDONED_CLAIM_MS.
+ */
+const reconcileClaim = async (claim: ClaimRecord) => {
+  if (claim.source === 'airdrop' || claim.status !== 'pending') {
+    return;
+  }
+  if (!isWalletSentClaim(claim) && !claim.transactionId) {
+    if (Date.now() - Date.parse(claim.createdAt) > ABANDONED_CLAIM_MS) {
+      failClaim(claim, 'The claim was abandoned before its transaction was signed');
+    }
+    return;
+  }
+  const lightConnection = getRpc();
+
+  if (claim.transactionId) {
+    const { value: [status] } = await lightConnection.getSignatureStatuses([claim.transactionId], { searchTransactionHistory: true });
+    if (status?.err) {
+      failClaim(claim, `Transaction failed: ${JSON.stringify(status.err)}`);
+      return;
+    }
+    if (status && status.confirmationStatus !== 'processed') {
+      claim.status = 'confirmed';
+      return;
+    }
+  } else {
+    const event = findEvent(claim.eventId);
+    const balances = await lightConnection.getCompressedTokenBalancesByOwner(
+      new PublicKey(claim.walletAddress),
+      { mint: new PublicKey(event.mintAddress!) }
+    );
+    if (balances.items.some(item => !item.balance.isZero())) {
+      const signatures = await lightConnection.getCompressionSignaturesForTokenOwner(new PublicKey(claim.walletAddress));
+      Object.assign(claim, { status: 'confirmed', transactionId: signatures.items[0]?.signature });
+      return;
+    }
+  }
+
+  if (claim.lastValidBlockHeight && await lightConnection.getBlockHeight('confirmed') > claim.lastValidBlockHeight) {
+    failClaim(claim, 'The claim transaction was not sent before it expired');
+  }
+};
+
+let isReconciling = false;
+
+const reconcilePendingClaims = async () => {
+  if (isReconciling) return;
+  isReconciling = true;
+  try {
+    // Without an RPC only abandoned in-app claims can be settled
+    const pending = store.claims.filter(c =>
+      c.source !== 'airdrop' && c.status === 'pending' && (RPC_URL || (!isWalletSentClaim(c) && !c.transactionId))
+    );
+    for (const claim of pending) {
+      try {
+        await reconcileClaim(claim);
+      } catch (error) {
+        console.warn(`Could not check claim ${claim.id}:`, error);
+      }
+    }
+    if (pending.length > 0) {
+      store.save();
+    }
+  } finally {
+    isReconciling = false;
+  }
+};
+
+/**
+ * Answers a Solana Pay transaction request or Action with the same claim
+ * transfer the app builds in `claimCompressedToken`. The claim record goes
+ * through the same checks as in-app claims. The claim authority signs as token
+ * owner, and as fee payer when the event sponsors fees; otherwise the wallet pays.
+ */
+const createWalletClaim = async (
+  eventId: string,
+  account: string | undefined,
+  { rotationToken, claimCode }: SolanaPayClaimParams,
+  source: WalletSentSource
+) => {
+  let recipient: PublicKey;
+  try {
+    recipient = new PublicKey(account || '');
+  } catch {
+    throw new HttpError(400, 'Missing or invalid account');
+  }
+  const walletAddress = recipient.toBase58();
+  const lightConnection = getRpc();
+
+  const event = findEvent(eventId);
+  const authorityRecord = store.claimAuthorities.find(a => a.eventId === eventId);
+  if (!event.mintAddress || !authorityRecord) {
+    throw new HttpError(409, 'This event is not ready for claims yet');
+  }
+  const authority = Keypair.fromSecretKey(bs58.decode(authorityRecord.secretKey));
+
+  // A wallet may ask again after the user dismissed an earlier request. That
+  // is only safe once the earlier transaction can no longer land.
+  const existing = store.claims.find(c => c.eventId === eventId && c.walletAddress === walletAddress);
+  if (existing && isWalletSentClaim(existing) && existing.status === 'pending') {
+    await reconcileClaim(existing);
+    store.save();
+    if (existing.status === 'pending') {
+      throw new HttpError(409, 'A claim for this wallet is already in progress. Approve it in your wallet or try again in a minute.');
+    }
+  }
+  if (existing && (!isWalletSentClaim(existing) || existing.status !== 'failed')) {
+    throw new HttpError(409, 'You have already claimed a token for this event');
+  }
+
+  const redeemed = event.requiresClaimCode ? await redeemClaimCode(eventId, claimCode, walletAddress) : null;
+
+  const sponsoredFee = estimateSponsoredClaimFee();
+  const otherClaims = store.claims.filter(c => c !== existing);
+  const sponsored = event.feeSponsorship?.enabled === true &&
+    canSponsorClaim(event, otherClaims.filter(c => c.eventId === eventId), sponsoredFee);
+
+  const claimData: ClaimRecord = {
+    eventId,
+    walletAddress,
+    status: 'pending',
+    source,
+    rotationToken,
+    claimCodeHash: redeemed?.codeHash,
+    sponsoredFeeLamports: sponsored ? sponsoredFee : undefined,
+    createdAt: new Date().toISOString()
+  };
+
+  let claim: ClaimRecord;
+  try {
+    if (existing) {
+      checkClaim(claimData, event, otherClaims);
+      claim = Object.assign(existing, claimData, { transactionId: undefined, errorMessage: undefined });
+      recordRotationNonce(claim);
+      store.save();
+    } else {
+      claim = createClaim(claimData);
+    }
+  } catch (error) {
+    if (redeemed) {
+      releaseClaimCode(eventId, redeemed.codeHash);
+    }
+    throw error;
+  }
+
+  try {
+    const { transaction, lastValidBlockHeight } = await buildClaimTransferTransaction(
+      lightConnection,
+      new PublicKey(event.mintAddress),
+      authority.publicKey,
+      recipient,
+      sponsored ? authority.publicKey : recipient,
+      event.decimals || 0
+    );
+    transaction.sign([authority]);
+
+    // A sponsored transaction is complete, so its signature is already known
+    Object.assign(claim, {
+      lastValidBlockHeight,
+      transactionId: sponsored ? bs58.encode(transaction.signatures[0]) : undefined
+    });
+    store.save();
+
+    return {
+      transaction: Buffer.from(transaction.serialize()).toString('base64'),
+      message: sponsored
+        ? `Claim your ${event.title} token. The organizer covers the fees.`
+        : `Claim your ${event.title} token.`
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    failClaim(claim, message);
+    store.save();
+    if (message.includes('no tokens available')) {
+      throw new HttpError(409, SOLD_OUT_MESSAGE);
+    }
+    throw error;
+  }
+};
+
+const getEventIcon = (event: EventRecord) =>
+  /^https:\/\//.test(event.imageUrl) ? event.imageUrl : `${APP_URL}/placeholder.svg`;
+
+/**
+ * Describes the claim Action for an event. Blink clients show why it is
+ * disabled while claims are closed or sold out, and ask for a code on events
+ * with printed claim codes. Rotating QR events can't be claimed from a shared
+ * link, since the link can't carry a fresh nonce.
+ */
+const getClaimAction = (eventId: string) => {
+  const event = findEvent(eventId);
+  const pool = store.pools.find(p => p.eventId === eventId);
+  const eventClaims = store.claims.filter(c => c.eventId === eventId);
+  const claimWindow = getClaimWindowState(event);
+
+  const disabledReason =
+    !event.mintAddress || !store.claimAuthorities.some(a => a.eventId === eventId) ? 'Not ready for claims yet' :
+    event.rotatingQr?.enabled ? 'Scan the QR code at the event to claim' :
+    claimWindow.status === 'upcoming' ? `Claims open ${new Date(claimWindow.opensAt!).toUTCString()}` :
+    claimWindow.status === 'closed' ? 'Claims closed' :
+    !hasSupplyForClaim(getSupplyTotal(event, pool), eventClaims) ? 'Sold out' :
+    null;
+
+  const href = `${ACTIONS_CLAIM_PATH}/${encodeURIComponent(eventId)}`;
+  return {
+    type: 'action',
+    icon: getEventIcon(event),
+    title: event.title,
+    description: [event.description, [event.date, event.location].filter(Boolean).join(' · ')]
+      .filter(Boolean)
+      .join('\n\n'),
+    label: disabledReason ?? 'Claim Token',
+    disabled: disabledReason !== null,
+    ...(disabledReason ? { error: { message: disabledReason } } : {}),
+    ...(event.requiresClaimCode && !disabledReason ? {
+      links: {
+        actions: [{
+          type: 'transaction',
+          label: 'Claim Token',
+          href: `${href}?code={code}`,
+          parameters: [{ name: 'code', label: 'Claim code (XXXX-XXXX-XXXX)', required: true }]
+        }]
+      }
+    } : {})
+  };
+};
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/api\/events$/,
+    handler: () => store.events
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/events\/([^/]+)$/,
+    handler: ([eventId]) => findEvent(eventId)
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/events\/([^/]+)$/,
+    handler: ([eventId], body, _query, request) => {
+      const existing = store.events.find(e => e.id === eventId);
+      if (existing) {
+        assertSignedBy(existing.creator, request, body);
+        return updateEvent(existing, { ...(body as EventRecord), id: eventId });
+      }
+
+      const event = { ...(body as EventRecord), id: eventId };
+      assertSignedBy(event.creator, request, body);
+      checkClaimAuthority(eventId, event.claimAuthority);
+      const authority = store.claimAuthorities.find(a => a.eventId === eventId);
+      if (authority && !event.claimAuthority) {
+        event.claimAuthority = authority.publicKey;
+      }
+      store.events.push(event);
+      store.save();
+      return event;
+    }
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/events\/([^/]+)$/,
+    handler: ([eventId], body, _query, request) => {
+      const event = findEvent(eventId);
+      assertSignedBy(event.creator, request, body);
+      return updateEvent(event, body as Partial<EventRecord>);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/events\/([^/]+)\/claim-authority$/,
+    handler: ([eventId]) => {
+      let authority = store.claimAuthorities.find(a => a.eventId === eventId);
+      if (!authority) {
+        const keypair = Keypair.generate();
+        authority = {
+          id: store.nextId(),
+          eventId,
+          publicKey: keypair.publicKey.toBase58(),
+          secretKey: bs58.encode(keypair.secretKey),
+          createdAt: new Date().toISOString()
+        };
+        store.claimAuthorities.push(authority);
+      }
+      const event = store.events.find(e => e.id === eventId);
+      if (event) {
+        event.claimAuthority = authority.publicKey;
+      }
+      store.save();
+      return { publicKey: authority.publicKey };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/events\/([^/]+)\/claims\/(\d+)\/cosign$/,
+    handler: async ([eventId, claimId], body) => {
+      const { transaction } = body as { transaction?: string };
+      if (!transaction) {
+        throw new HttpError(400, 'Missing claim transaction');
+      }
+      return { transaction: await cosignClaim(eventId, Number(claimId), transaction) };
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/events\/([^/]+)\/claim-codes$/,
+    handler: ([eventId]) => store.claimCodes.filter(c => c.eventId === eventId)
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/events\/([^/]+)\/claim-codes$/,
+    handler: ([eventId], body, _query, request) => {
+      assertSignedBy(findEvent(eventId).creator, request, body);
+      const { codes } = body as { codes?: ClaimCodeRecord[] };
+      if (!Array.isArray(codes) || codes.length === 0) {
+        throw new HttpError(400, 'Missing claim codes');
+      }
+      const saved = codes.map(code => ({
+        ...code,
+        id: store.nextId(),
+        eventId,
+        status: 'unused' as const,
+        claimedBy: undefined,
+        usedAt: undefined
+      }));
+      store.claimCodes.push(...saved);
+      store.save();
+      return saved;
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/events\/([^/]+)\/claim-codes\/redeem$/,
+    handler: ([eventId], body) => {
+      const { code, walletAddress } = body as { code?: string; walletAddress?: string };
+      return redeemClaimCode(eventId, code, walletAddress);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/events\/([^/]+)\/claim-codes\/([0-9a-f]+)\/release$/,
+    handler: ([eventId, codeHash]) => releaseClaimCode(eventId, codeHash)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/solana-pay\/claim\/([^/]+)$/,
+    handler: ([eventId]) => {
+      const event = findEvent(eventId);
+      return { label: event.title, icon: getEventIcon(event) };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/solana-pay\/claim\/([^/]+)$/,
+    handler: ([eventId], body, query) =>
+      createWalletClaim(eventId, (body as { account?: string }).account, parseSolanaPayClaimParams(query), 'solana-pay')
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/solana-pay\/claim\/([^/]+)\/status$/,
+    handler: async ([eventId], _body, query) => {
+      const claim = store.claims.find(c => c.eventId === eventId && c.walletAddress === query.get('account'));
+      if (!claim) {
+        throw new HttpError(404, 'No claim found for this account');
+      }
+      await reconcileClaim(claim);
+      store.save();
+      return claim;
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/actions\.json$/,
+    handler: () => getServiceActionsJson()
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/actions\/claim\/([^/]+)$/,
+    handler: ([eventId]) => getClaimAction(eventId)
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/actions\/claim\/([^/]+)$/,
+    handler: async ([eventId], body, query) => ({
+      type: 'transaction',
+      ...await createWalletClaim(eventId, (body as { account?: string }).account, parseSolanaPayClaimParams(query), 'action')
+    })
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/pools$/,
+    handler: (_params, _body, query) => filterBy(store.pools, query, ['eventId', 'mintAddress'])
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/pools$/,
+    handler: (_params, body, _query, request) => {
+      assertSignedBy(findEvent((body as PoolRecord).eventId).creator, request, body);
+      const pool: PoolRecord = { ...(body as PoolRecord), id: store.nextId() };
+      store.pools.push(pool);
+      store.save();
+      return pool;
+    }
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/pools\/([^/]+)$/,
+    handler: ([eventId], body, _query, request) => {
+      const pool = store.pools.find(p => p.eventId === eventId);
+      if (!pool) {
+        throw new HttpError(404, `Pool for event ${eventId} not found`);
+      }
+      assertSignedBy(findEvent(eventId).creator, request, body);
+      Object.assign(pool, body as Partial<PoolRecord>, { id: pool.id, eventId, createdAt: pool.createdAt });
+      store.save();
+      return pool;
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/claims$/,
+    handler: (_params, _body, query) => filterBy(store.claims, query, ['eventId', 'walletAddress'])
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/claims\/(\d+)$/,
+    handler: ([claimId]) => findClaim(Number(claimId))
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/claims$/,
+    handler: (_params, body, _query, request) => {
+      assertSignedBy(getClaimSigner(body as ClaimRecord), request, body);
+      return createClaim(body as ClaimRecord);
+    }
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/claims\/(\d+)$/,
+    handler: ([claimId], body, _query, request) => {
+      const claim = findClaim(Number(claimId));
+      const update = body as Partial<ClaimRecord>;
+      assertSignedBy(getClaimSigner({ ...claim, source: update.source ?? claim.source }), request, body);
+      return updateClaim(claim.id!, update);
+    }
+  }
+];
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  try {
+    for (const route of routes) {
+      const match = route.method === req.method ? route.pattern.exec(url.pathname) : null;
+      if (match) {
+        const body = req.method === 'GET' ? {} : await readBody(req);
+        const params = match.slice(1).map(decodeURIComponent);
+        const result = await route.handler(params, body, url.searchParams, {
+          method: route.method,
+          path: url.pathname,
+          authorization: req.headers.authorization
+        });
+        sendJson(res, 200, result);
+        return;
+      }
+    }
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (status === 500) {
+      console.error('Claim service error:', error);
+    }
+    // Solana Pay wallets show the `message` of an error response
+    sendJson(res, status, { error: message, message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Claim service listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
+
+setInterval(reconcilePendingClaims, CLAIM_RECONCILE_MS).unref();
@@ -0,0 +1,77 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { EventRecord, PoolRecord, ClaimRecord, ClaimAuthorityRecord, ClaimCodeRecord } from '../src/lib/db';
+
+// A rotating QR nonce a claim was made with, kept so it can't be used again
+export interface RotationNonceRecord {
+  eventId: string;
+  nonce: string;
+  usedAt: string;
+}
+
+export interface ClaimServiceData {
+  events: EventRecord[];
+  pools: PoolRecord[];
+  claims: ClaimRecord[];
+  claimAuthorities: ClaimAuthorityRecord[];
+  claimCodes: ClaimCodeRecord[];
+  rotationNonces: RotationNonceRecord[];
+  nextId: number;
+}
+
+const emptyData = (): ClaimServiceData => ({
+  events: [],
+  pools: [],
+  claims: [],
+  claimAuthorities: [],
+  claimCodes: [],
+  rotationNonces: [],
+  nextId: 1
+});
+
+/**
+ * JSON file backed store for the local claim service. Everything is kept in
+ * memory and flushed to disk after each write, which is plenty for development.
+ */
+export class ClaimServiceStore {
+  private data: ClaimServiceData;
+
+  constructor(private readonly filePath: string) {
+    this.data = existsSync(filePath)
+      ? { ...emptyData(), ...JSON.parse(readFileSync(filePath, 'utf8')) }
+      : emptyData();
+  }
+
+  get events() {
+    return this.data.events;
+  }
+
+  get pools() {
+    return this.data.pools;
+  }
+
+  get claims() {
+    return this.data.claims;
+  }
+
+  get claimAuthorities() {
+    return this.data.claimAuthorities;
+  }
+
+  get claimCodes() {
+    return this.data.claimCodes;
+  }
+
+  get rotationNonces() {
+    return this.data.rotationNonces;
+  }
+
+  nextId(): number {
+    return this.data.nextId++;
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+  }
+}
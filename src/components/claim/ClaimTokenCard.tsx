@@ -1,17 +1,23 @@
 
+import { useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Check, Loader2, Wallet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, Clock, Loader2, Lock, PackageX, ShieldAlert, ShieldCheck, UserX, Wallet } from 'lucide-react';
 import { WalletButton } from '@/components/WalletButton';
+import { EventRecord } from '@/lib/db';
+import { useIssuerVerification } from '@/hooks/useIssuerVerification';
+import { useClaimWindow } from '@/hooks/useClaimWindow';
+import { useEventSupply } from '@/hooks/useEventSupply';
+import SupplyCounter from '@/components/token/SupplyCounter';
+import { formatCountdown, formatDate } from '@/utils/formatters';
 
-interface EventData {
-  title: string;
+interface EventData extends EventRecord {
   organizer: string;
-  date: string;
-  location: string;
-  mintAddress: string;
-  stateTreeAddress: string;
+  stateTreeAddress?: string;
 }
 
 interface ClaimTokenCardProps {
@@ -19,7 +25,10 @@ interface ClaimTokenCardProps {
   isVerifying: boolean;
   isClaiming: boolean;
   hasClaimed: boolean | null;
+  isAllowlisted: boolean | null;
   walletConnected: boolean;
+  claimCode: string;
+  onClaimCodeChange: (code: string) => void;
   onClaimToken: () => Promise<void>;
 }
 
@@ -28,9 +37,25 @@ const ClaimTokenCard = ({
   isVerifying,
   isClaiming,
   hasClaimed,
+  isAllowlisted,
   walletConnected,
+  claimCode,
+  onClaimCodeChange,
   onClaimToken
 }: ClaimTokenCardProps) => {
+  const { isChecking, verification } = useIssuerVerification(eventData);
+  const claimWindow = useClaimWindow(eventData);
+  const windowStatus = claimWindow?.status ?? 'open';
+  const { supply, refresh: refreshSupply } = useEventSupply(eventData?.id);
+  const soldOut = supply?.soldOut === true && !hasClaimed;
+  
+  // A successful claim takes a token, so count it straight away
+  useEffect(() => {
+    if (hasClaimed) {
+      refreshSupply();
+    }
+  }, [hasClaimed, refreshSupply]);
+  
   return (
     <Card>
       <CardHeader>
@@ -39,11 +64,27 @@ const ClaimTokenCard = ({
           {walletConnected 
             ? "Click below to claim your event token" 
             : "Connect your wallet and claim your event token"}
+          {eventData?.feeSponsorship?.enabled && ". The organizer covers network fees while their budget lasts."}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {eventData && (
           <div className="space-y-2 border rounded-md p-4 bg-muted/30">
+            <div className="flex justify-end">
+              {isChecking || !verification ? (
+                <Badge variant="outline">
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" /> Checking issuer
+                </Badge>
+              ) : verification.verified ? (
+                <Badge className="bg-green-100 text-green-800" title={verification.reason}>
+                  <ShieldCheck className="mr-1 h-3 w-3" /> Verified issuer
+                </Badge>
+              ) : (
+                <Badge className="bg-yellow-100 text-yellow-800" title={verification.reason}>
+                  <ShieldAlert className="mr-1 h-3 w-3" /> Unverified issuer
+                </Badge>
+              )}
+            </div>
             <div className="grid grid-cols-2 gap-2">
               <p className="text-sm text-muted-foreground">Event:</p>
               <p className="text-sm font-medium text-right">{eventData.title}</p>
@@ -60,12 +101,96 @@ const ClaimTokenCard = ({
               <p className="text-sm text-muted-foreground">Location:</p>
               <p className="text-sm font-medium text-right">{eventData.location}</p>
             </div>
+            {claimWindow?.closesAt && (
+              <div className="grid grid-cols-2 gap-2">
+                <p className="text-sm text-muted-foreground">Claims:</p>
+                <div className="text-sm font-medium text-right">
+                  {windowStatus === 'upcoming' ? (
+                    <Badge variant="outline">Opens in {formatCountdown(claimWindow.secondsUntilOpen)}</Badge>
+                  ) : windowStatus === 'open' ? (
+                    <Badge className="bg-green-100 text-green-800" title={`Closes ${formatDate(new Date(claimWindow.closesAt))}`}>
+                      Open &middot; closes in {formatCountdown(claimWindow.secondsUntilClose ?? 0)}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">Closed</Badge>
+                  )}
+                </div>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-2">
               <p className="text-sm text-muted-foreground">Token:</p>
               <p className="text-sm font-medium text-right truncate" title={eventData.mintAddress}>
                 {eventData.mintAddress ? `${eventData.mintAddress.substring(0, 4)}...${eventData.mintAddress.substring(eventData.mintAddress.length - 4)}` : 'Unknown'}
               </p>
             </div>
+            <SupplyCounter supply={supply} className="pt-2" />
+          </div>
+        )}
+        
+        {verification && !verification.verified && !isChecking && (
+          <Alert variant="default" className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950 dark:border-yellow-900">
+            <ShieldAlert className="h-4 w-4 text-yellow-600" />
+            <AlertTitle>Unverified Issuer</AlertTitle>
+            <AlertDescription>
+              {verification.reason} Only claim if you trust where this QR code came from.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {soldOut && (
+          <Alert variant="destructive">
+            <PackageX className="h-4 w-4" />
+            <AlertTitle>Sold Out</AlertTitle>
+            <AlertDescription>
+              All {supply?.total} tokens for this event have been claimed.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {windowStatus === 'upcoming' && !hasClaimed && claimWindow?.opensAt && (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertTitle>Claims Open in {formatCountdown(claimWindow.secondsUntilOpen)}</AlertTitle>
+            <AlertDescription>
+              You can claim this token from {formatDate(new Date(claimWindow.opensAt))}.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {windowStatus === 'closed' && !hasClaimed && (
+          <Alert variant="destructive">
+            <Lock className="h-4 w-4" />
+            <AlertTitle>Claims Closed</AlertTitle>
+            <AlertDescription>
+              The claim window for this event has ended.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {isAllowlisted === false && !hasClaimed && (
+          <Alert variant="destructive">
+            <UserX className="h-4 w-4" />
+            <AlertTitle>Not on the List</AlertTitle>
+            <AlertDescription>
+              This event is restricted to registered wallets, and the connected wallet is not on the list.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {eventData?.requiresClaimCode && !hasClaimed && !soldOut && isAllowlisted !== false && (
+          <div className="space-y-2">
+            <Label htmlFor="claim-code">Claim Code</Label>
+            <Input
+              id="claim-code"
+              placeholder="XXXX-XXXX-XXXX"
+              value={claimCode}
+              onChange={(e) => onClaimCodeChange(e.target.value)}
+              className="font-mono uppercase"
+              autoComplete="off"
+            />
+            <p className="text-xs text-muted-foreground">
+              This event requires the single-use code printed on your ticket.
+            </p>
           </div>
         )}
         
@@ -90,22 +215,40 @@ const ClaimTokenCard = ({
         )}
       </CardContent>
       <CardFooter>
-        <Button
-          onClick={onClaimToken}
-          className="solana-gradient-bg w-full"
-          disabled={isClaiming || !walletConnected || hasClaimed === true}
-          title={!walletConnected ? "Please connect your wallet first" : ""}
-        >
-          {isClaiming ? (
-            <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Claiming...</>
-          ) : hasClaimed ? (
-            <><Check className="mr-2 h-4 w-4" /> Token Claimed</>
-          ) : !walletConnected ? (
-            <>Connect Wallet to Claim</>
-          ) : (
-            <>Claim Token</>
-          )}
-        </Button>
+        {soldOut ? (
+          <Button variant="outline" className="w-full" disabled>
+            <PackageX className="mr-2 h-4 w-4" /> Sold Out
+          </Button>
+        ) : windowStatus !== 'open' && !hasClaimed ? (
+          <Button variant="outline" className="w-full" disabled>
+            {windowStatus === 'upcoming' ? (
+              <><Clock className="mr-2 h-4 w-4" /> Claims Not Open Yet</>
+            ) : (
+              <><Lock className="mr-2 h-4 w-4" /> Claims Closed</>
+            )}
+          </Button>
+        ) : isAllowlisted === false && !hasClaimed ? (
+          <Button variant="outline" className="w-full" disabled>
+            <UserX className="mr-2 h-4 w-4" /> Not on the List
+          </Button>
+        ) : (
+          <Button
+            onClick={onClaimToken}
+            className="solana-gradient-bg w-full"
+            disabled={isClaiming || !walletConnected || hasClaimed === true || (eventData?.requiresClaimCode && !claimCode.trim())}
+            title={!walletConnected ? "Please connect your wallet first" : ""}
+          >
+            {isClaiming ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Claiming...</>
+            ) : hasClaimed ? (
+              <><Check className="mr-2 h-4 w-4" /> Token Claimed</>
+            ) : !walletConnected ? (
+              <>Connect Wallet to Claim</>
+            ) : (
+              <>Claim Token</>
+            )}
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -122,7 +122,7 @@ const QRScanner = ({
           <form onSubmit={onManualSubmit} className="w-full space-y-2">
             <input
               type="text"
-              placeholder="Enter Event ID"
+              placeholder="Enter Event ID or claim link"
               className="w-full px-3 py-2 border rounded-md"
               value={manualEventId}
               onChange={onManualChange}
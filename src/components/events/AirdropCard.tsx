@@ -0,0 +1,113 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { ListChecks, Loader2, Send, Upload } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useAirdrop } from '@/hooks/event/useAirdrop';
+
+interface AirdropCardProps {
+  event: EventRecord;
+}
+
+const AirdropCard = ({ event }: AirdropCardProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    recipientsText,
+    setRecipientsText,
+    isAirdropping,
+    progress,
+    result,
+    importRecipients,
+    fillFromAllowlist,
+    startAirdrop
+  } = useAirdrop(event);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      await importRecipients(file);
+    }
+    e.target.value = '';
+  };
+
+  const done = progress ? progress.total - progress.remaining : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Airdrop</CardTitle>
+        <CardDescription>
+          Send a token straight to wallets you already know. Running it again resumes an interrupted airdrop without sending anyone a second token.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="airdrop-recipients">Recipients</Label>
+          <Textarea
+            id="airdrop-recipients"
+            placeholder="One wallet address per line"
+            value={recipientsText}
+            onChange={(e) => setRecipientsText(e.target.value)}
+            className="font-mono text-xs min-h-32"
+            disabled={isAirdropping}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isAirdropping}>
+            <Upload className="mr-2 h-4 w-4" /> Import CSV/JSON
+          </Button>
+          {event.allowlist && event.allowlist.length > 0 && (
+            <Button variant="outline" onClick={fillFromAllowlist} disabled={isAirdropping}>
+              <ListChecks className="mr-2 h-4 w-4" /> Use Allowlist
+            </Button>
+          )}
+          <Button onClick={startAirdrop} disabled={isAirdropping || !recipientsText.trim()}>
+            {isAirdropping ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Airdropping...</>
+            ) : (
+              <><Send className="mr-2 h-4 w-4" /> Start Airdrop</>
+            )}
+          </Button>
+        </div>
+
+        {progress && progress.total > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{done} of {progress.total} recipients processed</span>
+              {progress.failed > 0 && (
+                <span className="text-red-600">{progress.failed} failed</span>
+              )}
+            </div>
+            <Progress value={(done / progress.total) * 100} />
+          </div>
+        )}
+
+        {result && (
+          <div className="grid grid-cols-2 gap-2 text-sm border rounded-md p-4 bg-muted/30">
+            <p className="text-muted-foreground">Delivered:</p>
+            <p className="text-right font-medium">{result.confirmed.length}</p>
+            <p className="text-muted-foreground">Already had a token:</p>
+            <p className="text-right font-medium">{result.alreadyDelivered.length}</p>
+            <p className="text-muted-foreground">Still confirming:</p>
+            <p className="text-right font-medium">{result.inFlight.length}</p>
+            <p className="text-muted-foreground">Failed:</p>
+            <p className="text-right font-medium">{result.failed.length}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AirdropCard;
@@ -0,0 +1,94 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Trash2, Upload } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useAllowlist } from '@/hooks/event/useAllowlist';
+
+interface AllowlistCardProps {
+  event: EventRecord;
+}
+
+const AllowlistCard = ({ event }: AllowlistCardProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    allowlist,
+    coverage,
+    isLoading,
+    isUpdating,
+    importAllowlist,
+    clearAllowlist
+  } = useAllowlist(event);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      await importAllowlist(file);
+    }
+    // Allow the same file to be picked again after editing it
+    e.target.value = '';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Allowlist</CardTitle>
+        <CardDescription>
+          Restrict claims to registered wallets by importing a CSV or JSON file of addresses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {allowlist.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No allowlist. Any wallet can claim this event.
+          </p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{coverage.claimed} of {coverage.listed} listed wallets have claimed</span>
+              <span className="text-muted-foreground">{coverage.outstanding.length} outstanding</span>
+            </div>
+            <Progress value={coverage.listed ? (coverage.claimed / coverage.listed) * 100 : 0} />
+            {coverage.outstanding.length > 0 && (
+              <ScrollArea className="h-32 rounded-md border p-2">
+                {coverage.outstanding.map(wallet => (
+                  <p key={wallet} className="font-mono text-xs py-0.5">{wallet}</p>
+                ))}
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={isUpdating}>
+            {isUpdating ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Updating...</>
+            ) : (
+              <><Upload className="mr-2 h-4 w-4" /> {allowlist.length > 0 ? 'Replace Allowlist' : 'Import Allowlist'}</>
+            )}
+          </Button>
+          {allowlist.length > 0 && (
+            <Button variant="outline" onClick={clearAllowlist} disabled={isUpdating}>
+              <Trash2 className="mr-2 h-4 w-4" /> Remove
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AllowlistCard;
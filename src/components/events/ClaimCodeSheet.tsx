@@ -0,0 +1,68 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { EventRecord } from '@/lib/db';
+import { encodeClaimCodeUrl } from '@/utils/qrPayload';
+
+interface ClaimCodeSheetProps {
+  event: EventRecord;
+  codes: string[];
+  origin: string;
+}
+
+// The sheet is rendered to static markup in a separate print window, so it
+// uses inline styles instead of Tailwind classes
+const styles = {
+  page: {
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    color: '#111827',
+    margin: 0
+  },
+  header: {
+    marginBottom: '16px'
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(4, 1fr)',
+    gap: '12px'
+  },
+  ticket: {
+    border: '1px dashed #9ca3af',
+    borderRadius: '6px',
+    padding: '10px',
+    textAlign: 'center' as const,
+    breakInside: 'avoid' as const
+  },
+  code: {
+    fontFamily: 'ui-monospace, monospace',
+    fontSize: '13px',
+    fontWeight: 600,
+    letterSpacing: '0.05em',
+    marginTop: '6px'
+  },
+  hint: {
+    fontSize: '10px',
+    color: '#6b7280',
+    marginTop: '2px'
+  }
+};
+
+const ClaimCodeSheet = ({ event, codes, origin }: ClaimCodeSheetProps) => (
+  <div style={styles.page}>
+    <div style={styles.header}>
+      <h1 style={{ fontSize: '20px', margin: 0 }}>{event.title}</h1>
+      <p style={{ fontSize: '12px', color: '#6b7280', margin: '4px 0 0' }}>
+        {event.date} · {event.location} · Each code can be claimed once. Scan it, or open {origin}/claim/{event.id} and enter the code.
+      </p>
+    </div>
+    <div style={styles.grid}>
+      {codes.map(code => (
+        <div key={code} style={styles.ticket}>
+          <QRCodeSVG value={encodeClaimCodeUrl(event.id, code, origin)} size={112} level="M" />
+          <div style={styles.code}>{code}</div>
+          <div style={styles.hint}>{event.symbol} claim code</div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default ClaimCodeSheet;
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Printer, Ticket } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useClaimCodes } from '@/hooks/event/useClaimCodes';
+import { MAX_CLAIM_CODES_PER_BATCH } from '@/utils/claimCodes';
+
+interface ClaimCodesCardProps {
+  event: EventRecord;
+}
+
+const ClaimCodesCard = ({ event }: ClaimCodesCardProps) => {
+  const [count, setCount] = useState(Math.min(event.attendeeCount || 1, MAX_CLAIM_CODES_PER_BATCH));
+  const {
+    codes,
+    usedCount,
+    isLoading,
+    isGenerating,
+    requiresClaimCode,
+    lastBatch,
+    generateCodes,
+    printSheet,
+    setClaimCodeRequired
+  } = useClaimCodes(event);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Claim Codes</CardTitle>
+        <CardDescription>
+          Print single-use codes for attendees. Each code can be redeemed for exactly one token.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="requires-claim-code">Require a claim code to claim</Label>
+          <Switch
+            id="requires-claim-code"
+            checked={requiresClaimCode}
+            onCheckedChange={setClaimCodeRequired}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {codes.length === 0
+              ? "No codes have been generated for this event yet."
+              : `${usedCount} of ${codes.length} codes redeemed.`}
+          </p>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="claim-code-count">Number of codes</Label>
+            <Input
+              id="claim-code-count"
+              type="number"
+              min={1}
+              max={MAX_CLAIM_CODES_PER_BATCH}
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              className="w-32"
+            />
+          </div>
+          <Button onClick={() => generateCodes(count)} disabled={isGenerating}>
+            {isGenerating ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Generating...</>
+            ) : (
+              <><Ticket className="mr-2 h-4 w-4" /> Generate &amp; Print</>
+            )}
+          </Button>
+          {lastBatch.length > 0 && (
+            <Button variant="outline" onClick={() => printSheet()}>
+              <Printer className="mr-2 h-4 w-4" /> Print Again
+            </Button>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Only a hash of each code is stored, so a batch can only be printed until you leave this page.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClaimCodesCard;
@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarPlus, Loader2, Lock, Save } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useClaimWindow } from '@/hooks/useClaimWindow';
+import { useClaimWindowSettings } from '@/hooks/event/useClaimWindowSettings';
+import { DEFAULT_CLAIM_WINDOW_HOURS } from '@/utils/claimWindow';
+import { formatCountdown } from '@/utils/formatters';
+
+interface ClaimWindowCardProps {
+  event: EventRecord;
+}
+
+const ClaimWindowCard = ({ event }: ClaimWindowCardProps) => {
+  const {
+    claimWindow,
+    opensAtInput,
+    setOpensAtInput,
+    closesAtInput,
+    setClosesAtInput,
+    isUpdating,
+    saveInputs,
+    extendWindow,
+    closeNow
+  } = useClaimWindowSettings(event);
+  const state = useClaimWindow(claimWindow);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Claim Window</CardTitle>
+          {state?.status === 'upcoming' ? (
+            <Badge variant="outline">Opens in {formatCountdown(state.secondsUntilOpen)}</Badge>
+          ) : state?.status === 'closed' ? (
+            <Badge variant="secondary">Closed</Badge>
+          ) : (
+            <Badge className="bg-green-100 text-green-800">
+              Open{state?.secondsUntilClose !== null && state?.secondsUntilClose !== undefined
+                ? ` · closes in ${formatCountdown(state.secondsUntilClose)}` : ''}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Attendees can only claim between these times. Leave a field empty to remove that limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="claim-opens-at">Claims Open</Label>
+            <Input
+              id="claim-opens-at"
+              type="datetime-local"
+              value={opensAtInput}
+              onChange={(e) => setOpensAtInput(e.target.value)}
+              disabled={isUpdating}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="claim-closes-at">Claims Close</Label>
+            <Input
+              id="claim-closes-at"
+              type="datetime-local"
+              value={closesAtInput}
+              onChange={(e) => setClosesAtInput(e.target.value)}
+              disabled={isUpdating}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={saveInputs} disabled={isUpdating}>
+            {isUpdating ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+            ) : (
+              <><Save className="mr-2 h-4 w-4" /> Save</>
+            )}
+          </Button>
+          <Button variant="outline" onClick={() => extendWindow()} disabled={isUpdating}>
+            <CalendarPlus className="mr-2 h-4 w-4" /> Extend {DEFAULT_CLAIM_WINDOW_HOURS}h
+          </Button>
+          {state?.status !== 'closed' && (
+            <Button variant="outline" onClick={closeNow} disabled={isUpdating}>
+              <Lock className="mr-2 h-4 w-4" /> Close Claims Now
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClaimWindowCard;
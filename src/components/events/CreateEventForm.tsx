@@ -53,6 +53,12 @@ const CreateEventForm = ({
       errors.attendeeCount = "For testing, please limit to 1000 attendees";
     }
     
+    // Claim window validation
+    if (eventDetails.claimOpensAt && eventDetails.claimClosesAt &&
+        new Date(eventDetails.claimClosesAt) <= new Date(eventDetails.claimOpensAt)) {
+      errors.claimClosesAt = "Claims must close after they open";
+    }
+    
     setFormErrors(errors);
   }, [eventDetails]);
 
@@ -138,6 +144,40 @@ const CreateEventForm = ({
             </div>
           </div>
           
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Claims Open</Label>
+              <Input
+                id="claimOpensAt"
+                name="claimOpensAt"
+                type="datetime-local"
+                value={eventDetails.claimOpensAt || ''}
+                onChange={onChange}
+              />
+              <p className="text-xs text-muted-foreground">
+                Defaults to the event start
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label className={formErrors.claimClosesAt ? "text-red-500" : ""}>Claims Close</Label>
+              <Input
+                id="claimClosesAt"
+                name="claimClosesAt"
+                type="datetime-local"
+                value={eventDetails.claimClosesAt || ''}
+                onChange={onChange}
+                className={formErrors.claimClosesAt ? "border-red-500" : ""}
+              />
+              {formErrors.claimClosesAt ? (
+                <p className="text-xs text-red-500">{formErrors.claimClosesAt}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Defaults to 24 hours after claims open
+                </p>
+              )}
+            </div>
+          </div>
+          
           <div className="space-y-2">
             <Label>Description</Label>
             <Textarea
@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2, Loader2, RefreshCw, Wrench, XCircle } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { EVENT_HEALTH_CHECKS, EventHealth, EventHealthCheck } from '@/utils/token';
+
+const HEALTH_CHECKS: Record<EventHealthCheck, { label: string, failure: string, requires?: EventHealthCheck }> = {
+  mint: {
+    label: 'Token mint',
+    failure: "The mint isn't on chain. Repairing creates a new mint for the event."
+  },
+  metadata: {
+    label: 'Token metadata',
+    failure: "Some event details are missing from the mint, so other devices can't show or verify the event.",
+    requires: 'mint'
+  },
+  pool: {
+    label: 'Token pool',
+    failure: 'The mint is not registered with Light Protocol, so its supply cannot be compressed.',
+    requires: 'mint'
+  },
+  supply: {
+    label: 'Compressed supply',
+    failure: 'The event supply was never minted to the claim authority, so claims will fail.',
+    requires: 'pool'
+  }
+};
+
+interface EventHealthCardProps {
+  event: EventRecord;
+  health: EventHealth | undefined;
+  isChecking: boolean;
+  repairingStep: EventHealthCheck | null;
+  onRefresh: () => void;
+  onRepair: (step: EventHealthCheck) => void;
+}
+
+const EventHealthCard = ({ event, health, isChecking, repairingStep, onRefresh, onRepair }: EventHealthCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Setup Health</CardTitle>
+        <CardDescription>
+          Each step of the event's setup, checked on chain. A failed step can be repaired on its own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!health ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          EVENT_HEALTH_CHECKS.map((step) => {
+            const { label, failure, requires } = HEALTH_CHECKS[step];
+            const blocked = !!requires && !health[requires];
+
+            return (
+              <div key={step} className="flex items-center justify-between gap-4 border rounded-md p-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  {health[step] ? (
+                    <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-600 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium">{label}</p>
+                    {!health[step] && (
+                      <p className="text-xs text-muted-foreground">
+                        {blocked ? `Repair the ${HEALTH_CHECKS[requires].label.toLowerCase()} first.` : failure}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {!health[step] && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRepair(step)}
+                    disabled={blocked || !!repairingStep || isChecking}
+                  >
+                    {repairingStep === step ? (
+                      <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Repairing...</>
+                    ) : (
+                      <><Wrench className="mr-2 h-4 w-4" /> Repair</>
+                    )}
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <Button variant="outline" onClick={onRefresh} disabled={isChecking || !!repairingStep}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} /> Check Again
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Mint: <span className="font-mono">{event.mintAddress || 'None'}</span>
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventHealthCard;
@@ -0,0 +1,111 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Save, Wallet } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useFeeSponsorship } from '@/hooks/event/useFeeSponsorship';
+import { formatSol, formatWalletAddress } from '@/utils/formatters';
+
+interface FeeSponsorshipCardProps {
+  event: EventRecord;
+}
+
+const FeeSponsorshipCard = ({ event }: FeeSponsorshipCardProps) => {
+  const {
+    sponsorship,
+    budgetSolInput,
+    setBudgetSolInput,
+    budget,
+    feePayer,
+    feePayerBalance,
+    requiredBalance,
+    isUpdating,
+    isFunding,
+    saveSponsorship,
+    fundFeeAccount
+  } = useFeeSponsorship(event);
+
+  const underfunded = requiredBalance !== null && feePayerBalance !== null && sponsorship.enabled &&
+    feePayerBalance < requiredBalance;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gasless Claims</CardTitle>
+        <CardDescription>
+          Pay attendees' claim fees from the event's fee account so wallets without SOL can claim.
+          Once the budget is spent, attendees pay their own fees.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="fee-sponsorship">Sponsor claim fees</Label>
+          <Switch
+            id="fee-sponsorship"
+            checked={sponsorship.enabled}
+            disabled={isUpdating || !feePayer}
+            onCheckedChange={saveSponsorship}
+          />
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="fee-budget">Budget (SOL)</Label>
+            <Input
+              id="fee-budget"
+              type="number"
+              min={0}
+              step="0.01"
+              value={budgetSolInput}
+              onChange={(e) => setBudgetSolInput(e.target.value)}
+              disabled={isUpdating}
+            />
+          </div>
+          <Button variant="outline" onClick={() => saveSponsorship(sponsorship.enabled)} disabled={isUpdating}>
+            {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save Budget
+          </Button>
+        </div>
+
+        {budget && budget.budgetLamports > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{formatSol(budget.spentLamports)} of {formatSol(budget.budgetLamports)} spent</span>
+              <span className="text-muted-foreground">{budget.sponsoredClaims} sponsored claims</span>
+            </div>
+            <Progress value={Math.min(100, (budget.spentLamports / budget.budgetLamports) * 100)} />
+          </div>
+        )}
+
+        {feePayer ? (
+          <div className="grid grid-cols-2 gap-2 text-sm border rounded-md p-4 bg-muted/30">
+            <p className="text-muted-foreground">Fee account:</p>
+            <p className="text-right font-mono" title={feePayer}>{formatWalletAddress(feePayer)}</p>
+            <p className="text-muted-foreground">Balance:</p>
+            <p className={`text-right font-medium ${underfunded ? 'text-red-600' : ''}`}>
+              {feePayerBalance !== null ? formatSol(feePayerBalance) : 'Unknown'}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This event has no claim authority yet. Create its token pool to enable gasless claims.
+          </p>
+        )}
+
+        {feePayer && (
+          <Button onClick={fundFeeAccount} disabled={isFunding || !budget}>
+            {isFunding ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Funding...</>
+            ) : (
+              <><Wallet className="mr-2 h-4 w-4" /> Fund Fee Account</>
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeeSponsorshipCard;
@@ -2,10 +2,19 @@
 import { QRCodeSVG } from 'qrcode.react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Download, Copy, ExternalLink } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Download, Copy, ExternalLink, RefreshCw, Smartphone } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from '@/components/ui/use-toast';
 import { CreationStep } from '@/hooks/useCreateEvent';
+import { useRotatingQR } from '@/hooks/event/useRotatingQR';
+import { useEventSupply } from '@/hooks/useEventSupply';
+import SupplyCounter from '@/components/token/SupplyCounter';
+import { getClaimServiceUrl } from '@/lib/claimServiceClient';
+import { encodeSolanaPayClaimUrl } from '@/utils/solanaPay';
+import { getBlinkUrl } from '@/utils/solanaActions';
 
 interface QRCodeDisplayProps {
   qrCodeUrl: string | null;
@@ -14,6 +23,7 @@ interface QRCodeDisplayProps {
   transactionId: string | null;
   step: CreationStep;
   onDownload: () => void;
+  rotation?: ReturnType<typeof useRotatingQR>;
 }
 
 const QRCodeDisplay = ({ 
@@ -22,9 +32,25 @@ const QRCodeDisplay = ({
   eventId,
   transactionId,
   step,
-  onDownload 
+  onDownload,
+  rotation
 }: QRCodeDisplayProps) => {
   const [copied, setCopied] = useState(false);
+  const [useSolanaPay, setUseSolanaPay] = useState(false);
+  const claimServiceUrl = getClaimServiceUrl();
+  const { supply } = useEventSupply(step === CreationStep.COMPLETE ? eventId : null);
+  
+  // While rotating, the static code is hidden so it can't be photographed
+  const appUrl = rotation?.isRotating ? rotation.rotatingQrUrl : qrCodeUrl;
+  
+  // Solana Pay requests are answered by the claim service, so wallets can
+  // claim without opening the app
+  const solanaPayUrl = claimServiceUrl && eventId && (!rotation?.isRotating || rotation.rotationToken)
+    ? encodeSolanaPayClaimUrl(claimServiceUrl, eventId, {
+        rotationToken: rotation?.isRotating ? rotation.rotationToken ?? undefined : undefined
+      })
+    : null;
+  const displayedUrl = useSolanaPay && appUrl ? solanaPayUrl : appUrl;
 
   const copyToClipboard = (text: string, label: string) => {
     if (!text) return;
@@ -52,9 +78,9 @@ const QRCodeDisplay = ({
       </CardHeader>
       <CardContent className="flex flex-col items-center space-y-4">
         <div id="qr-code" className="bg-white p-4 rounded-md">
-          {qrCodeUrl ? (
+          {displayedUrl ? (
             <QRCodeSVG 
-              value={qrCodeUrl} 
+              value={displayedUrl} 
               size={180}
               includeMargin={true}
             />
@@ -71,6 +97,78 @@ const QRCodeDisplay = ({
           )}
         </div>
 
+        <SupplyCounter supply={supply} />
+
+        {claimServiceUrl && qrCodeUrl && (
+          <div className="w-full p-3 border rounded-md flex items-center justify-between">
+            <div>
+              <Label htmlFor="solana-pay-qr" className="text-sm font-medium flex items-center">
+                <Smartphone className="h-3 w-3 mr-1" /> Scan with wallet
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {useSolanaPay
+                  ? "Phantom and Solflare claim straight from the code (Solana Pay)"
+                  : "Attendees open the claim page in their browser"}
+              </p>
+            </div>
+            <Switch
+              id="solana-pay-qr"
+              checked={useSolanaPay}
+              onCheckedChange={setUseSolanaPay}
+            />
+          </div>
+        )}
+
+        {rotation && qrCodeUrl && (
+          <div className="w-full p-3 border rounded-md space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rotating-qr" className="text-sm font-medium">Rotating code</Label>
+                <p className="text-xs text-muted-foreground">
+                  {rotation.isRotating
+                    ? `New code in ${rotation.secondsLeft}s`
+                    : "Stops shared photos of the code from being used remotely"}
+                </p>
+              </div>
+              <Switch
+                id="rotating-qr"
+                checked={rotation.isRotating}
+                disabled={rotation.isUpdating}
+                onCheckedChange={(checked) => checked ? rotation.enableRotation() : rotation.disableRotation()}
+              />
+            </div>
+            {rotation.isRotating ? (
+              <p className="text-xs text-muted-foreground flex items-center">
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Rotates every {rotation.intervalSeconds}s or once claimed, valid for {rotation.graceSeconds}s after replacement
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="rotation-interval" className="text-xs">Interval (seconds)</Label>
+                  <Input
+                    id="rotation-interval"
+                    type="number"
+                    min={5}
+                    value={rotation.intervalSeconds}
+                    onChange={(e) => rotation.setIntervalSeconds(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rotation-grace" className="text-xs">Grace window (seconds)</Label>
+                  <Input
+                    id="rotation-grace"
+                    type="number"
+                    min={0}
+                    value={rotation.graceSeconds}
+                    onChange={(e) => rotation.setGraceSeconds(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {eventId && (
           <div className="w-full p-3 bg-muted rounded-md flex items-center justify-between">
             <div className="truncate max-w-[70%]">
@@ -88,6 +186,23 @@ const QRCodeDisplay = ({
           </div>
         )}
 
+        {claimServiceUrl && eventId && step === CreationStep.COMPLETE && (
+          <div className="w-full p-3 bg-muted rounded-md flex items-center justify-between">
+            <div className="truncate max-w-[70%]">
+              <p className="text-xs font-medium mb-0.5">Blink (share on X or Discord):</p>
+              <p className="text-sm font-mono truncate">{getBlinkUrl(claimServiceUrl, eventId)}</p>
+            </div>
+            <Button 
+              size="icon" 
+              variant="ghost" 
+              onClick={() => copyToClipboard(getBlinkUrl(claimServiceUrl, eventId), 'Blink link')}
+              className="flex-shrink-0"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
         {mintAddress && (
           <div className="w-full">
             <div className="flex items-center justify-between mb-1">
@@ -135,7 +250,7 @@ const QRCodeDisplay = ({
       <CardFooter>
         <Button 
           onClick={onDownload} 
-          disabled={!qrCodeUrl} 
+          disabled={!qrCodeUrl || rotation?.isRotating} 
           variant="outline"
           className="w-full"
         >
@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { EventRecord, EventSetupStep } from '@/lib/db';
+import { formatDate } from '@/utils/formatters';
+
+const SETUP_STEP_LABELS: Record<EventSetupStep, string> = {
+  token_created: 'Token created, pool not set up',
+  pool_created: 'Pool created, QR code not generated',
+  complete: 'Complete'
+};
+
+interface ResumeSetupCardProps {
+  events: EventRecord[];
+  resumingEventId: string | null;
+  disabled: boolean;
+  onResume: (eventId: string) => void;
+}
+
+const ResumeSetupCard = ({ events, resumingEventId, disabled, onResume }: ResumeSetupCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Unfinished Events</CardTitle>
+        <CardDescription>
+          These events were left before their setup finished. Resuming skips every step that already landed on chain.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {events.map((event) => (
+          <div key={event.id} className="flex items-center justify-between gap-4 border rounded-md p-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{event.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {event.setup ? SETUP_STEP_LABELS[event.setup.step] : ''} · {formatDate(event.setup?.updatedAt || event.createdAt)}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onResume(event.id)}
+              disabled={disabled}
+            >
+              {resumingEventId === event.id ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Checking...</>
+              ) : (
+                <><RotateCcw className="mr-2 h-4 w-4" /> Resume Setup</>
+              )}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResumeSetupCard;
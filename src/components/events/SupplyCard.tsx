@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { EventRecord } from '@/lib/db';
+import { useEventSupply } from '@/hooks/useEventSupply';
+import SupplyCounter from '@/components/token/SupplyCounter';
+
+interface SupplyCardProps {
+  event: EventRecord;
+}
+
+const SupplyCard = ({ event }: SupplyCardProps) => {
+  const { supply, isLoading, refresh } = useEventSupply(event.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Supply</CardTitle>
+        <CardDescription>
+          Tokens left for attendees to claim, read from the claim authority's balance on chain. Airdrops don't count against it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!supply ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <SupplyCounter supply={supply} />
+
+            <div className="grid grid-cols-2 gap-2 text-sm border rounded-md p-4 bg-muted/30">
+              <p className="text-muted-foreground">Remaining on chain:</p>
+              <p className="text-right font-medium">{supply.onChainRemaining ?? 'Unavailable'}</p>
+              <p className="text-muted-foreground">Confirmed claims:</p>
+              <p className="text-right font-medium">{supply.recordedClaims}</p>
+              <p className="text-muted-foreground">Pending claims:</p>
+              <p className="text-right font-medium">{supply.pending}</p>
+            </div>
+
+            {!supply.isReconciled && (
+              <Alert variant="default" className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950 dark:border-yellow-900">
+                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                <AlertTitle>Records Out of Sync</AlertTitle>
+                <AlertDescription>
+                  {supply.total - supply.recordedClaims} tokens should be left based on confirmed claims, but the chain shows {supply.onChainRemaining}. The on-chain balance is used for claiming.
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+
+        <Button variant="outline" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SupplyCard;
@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { WalletToken, estimateTokenActionFee } from '@/utils/token';
+import { formatSol } from '@/utils/formatters';
+
+interface BurnTokenDialogProps {
+  token: WalletToken;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBurn: (token: WalletToken) => Promise<boolean>;
+}
+
+const BurnTokenDialog = ({ token, open, onOpenChange, onBurn }: BurnTokenDialogProps) => {
+  const fee = estimateTokenActionFee('burn', token.amount, token.amount);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Burn {token.event?.title || 'Token'}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Burning destroys the token for good. You won't be able to show it as proof of
+            participation, and the event won't issue you another one.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Estimated network fee: {formatSol(fee)}
+        </p>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-600 hover:bg-red-700"
+            onClick={() => onBurn(token)}
+          >
+            Burn Token
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BurnTokenDialog;
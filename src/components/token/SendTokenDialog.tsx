@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Send } from 'lucide-react';
+import { WalletToken, estimateTokenActionFee } from '@/utils/token';
+import { isWalletAddress } from '@/utils/allowlist';
+import { formatSol } from '@/utils/formatters';
+
+interface SendTokenDialogProps {
+  token: WalletToken;
+  ownerAddress: string | undefined;
+  open: boolean;
+  isSending: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSend: (token: WalletToken, recipient: string) => Promise<boolean>;
+}
+
+const getRecipientError = (recipient: string, ownerAddress: string | undefined): string | null => {
+  if (!recipient) return null;
+  if (!isWalletAddress(recipient)) {
+    return 'That is not a valid Solana address.';
+  }
+  // Program-derived addresses have no private key, so tokens sent there are stuck
+  if (!PublicKey.isOnCurve(new PublicKey(recipient).toBytes())) {
+    return 'That address belongs to a program, not a wallet.';
+  }
+  if (recipient === ownerAddress) {
+    return 'You already hold this token.';
+  }
+  return null;
+};
+
+const SendTokenDialog = ({ token, ownerAddress, open, isSending, onOpenChange, onSend }: SendTokenDialogProps) => {
+  const [recipient, setRecipient] = useState('');
+  const trimmedRecipient = recipient.trim();
+  const recipientError = getRecipientError(trimmedRecipient, ownerAddress);
+  const fee = estimateTokenActionFee('send', token.amount, token.amount);
+
+  const handleSend = async () => {
+    if (await onSend(token, trimmedRecipient)) {
+      setRecipient('');
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isSending && onOpenChange(nextOpen)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Send {token.event?.title || 'Token'}</DialogTitle>
+          <DialogDescription>
+            The token leaves your wallet for good. Double-check the address before you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="send-recipient">Recipient wallet</Label>
+          <Input
+            id="send-recipient"
+            placeholder="Wallet address"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            className="font-mono text-xs"
+            disabled={isSending}
+          />
+          {recipientError && <p className="text-sm text-red-600">{recipientError}</p>}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Estimated network fee: {formatSol(fee)}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !trimmedRecipient || recipientError !== null}>
+            {isSending ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending...</>
+            ) : (
+              <><Send className="mr-2 h-4 w-4" /> Send Token</>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendTokenDialog;
@@ -0,0 +1,31 @@
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { EventSupply } from '@/utils/supply';
+
+interface SupplyCounterProps {
+  supply: EventSupply | null;
+  className?: string;
+}
+
+/**
+ * "X of Y claimed" with a progress bar, or a sold out badge once the supply is gone
+ */
+const SupplyCounter = ({ supply, className = '' }: SupplyCounterProps) => {
+  if (!supply || supply.total === 0) return null;
+
+  return (
+    <div className={`w-full space-y-1 ${className}`}>
+      <div className="flex items-center justify-between text-sm">
+        <span>{supply.claimed} of {supply.total} claimed</span>
+        {supply.soldOut ? (
+          <Badge variant="destructive">Sold out</Badge>
+        ) : (
+          <span className="text-muted-foreground">{supply.remaining} left</span>
+        )}
+      </div>
+      <Progress value={(supply.claimed / supply.total) * 100} />
+    </div>
+  );
+};
+
+export default SupplyCounter;
@@ -0,0 +1,87 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { TokenTransactionRecord } from '@/lib/db';
+import { formatDate, formatTransactionId, formatWalletAddress } from '@/utils/formatters';
+
+const TRANSACTION_LABELS: Record<TokenTransactionRecord['type'], string> = {
+  decompress: 'Decompress',
+  send: 'Send',
+  burn: 'Burn'
+};
+
+interface TokenActivityCardProps {
+  activity: TokenTransactionRecord[];
+}
+
+const TokenActivityCard = ({ activity }: TokenActivityCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Token Activity</CardTitle>
+        <CardDescription>
+          Token transactions sent from this browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Action</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Transaction</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activity.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="font-medium">
+                    {TRANSACTION_LABELS[transaction.type]}
+                    {transaction.type === 'send' && transaction.destination && (
+                      <span className="block text-xs text-muted-foreground font-mono">
+                        to {formatWalletAddress(transaction.destination)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{formatWalletAddress(transaction.mintAddress)}</TableCell>
+                  <TableCell>{formatDate(transaction.createdAt)}</TableCell>
+                  <TableCell>
+                    <Badge
+                      className={
+                        transaction.status === 'confirmed' ? 'bg-green-100 text-green-800' :
+                        transaction.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-red-100 text-red-800'
+                      }
+                      title={transaction.errorMessage}
+                    >
+                      {transaction.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {transaction.transactionId ? (
+                      <a
+                        href={`https://explorer.solana.com/tx/${transaction.transactionId}?cluster=devnet`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {formatTransactionId(transaction.transactionId)}
+                      </a>
+                    ) : (
+                      'N/A'
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TokenActivityCard;
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownToLine, Calendar, ExternalLink, Flame, Loader2, Lock, MapPin, Send, Snowflake } from 'lucide-react';
+import { WalletToken } from '@/utils/token';
+import { WalletTokenAction } from '@/hooks/useWalletTokens';
+import SendTokenDialog from './SendTokenDialog';
+import BurnTokenDialog from './BurnTokenDialog';
+import { formatTokenAmount, formatWalletAddress } from '@/utils/formatters';
+
+const PLACEHOLDER_IMAGE = '/placeholder.svg';
+
+interface WalletTokenCardProps {
+  token: WalletToken;
+  ownerAddress: string | undefined;
+  activeAction: WalletTokenAction | null; // Action running on this token, if any
+  onDecompress: (token: WalletToken) => Promise<boolean>;
+  onSend: (token: WalletToken, recipient: string) => Promise<boolean>;
+  onBurn: (token: WalletToken) => Promise<boolean>;
+}
+
+const WalletTokenCard = ({ token, ownerAddress, activeAction, onDecompress, onSend, onBurn }: WalletTokenCardProps) => {
+  const [dialog, setDialog] = useState<'send' | 'burn' | null>(null);
+  const { event, mintAddress, amount, frozen, nonTransferable } = token;
+  const isBusy = activeAction !== null || frozen;
+  const decimals = event?.decimals ?? 0;
+  const isOneToken = amount === 10n ** BigInt(decimals);
+
+  return (
+    <Card className="overflow-hidden">
+      <img
+        src={event?.imageUrl || PLACEHOLDER_IMAGE}
+        alt={event?.title || 'Token image'}
+        className="h-40 w-full object-cover bg-muted"
+        onError={(e) => { e.currentTarget.src = PLACEHOLDER_IMAGE; }}
+      />
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg">{event?.title || 'Unknown Token'}</CardTitle>
+          {event?.symbol && <Badge variant="secondary">{event.symbol}</Badge>}
+        </div>
+        {event?.description && (
+          <CardDescription className="line-clamp-2">{event.description}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {event?.date && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Calendar className="h-4 w-4" /> {event.date}{event.time ? ` at ${event.time}` : ''}
+          </p>
+        )}
+        {event?.location && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <MapPin className="h-4 w-4" /> {event.location}
+          </p>
+        )}
+        <div className="flex items-center justify-between pt-2">
+          <span className="font-medium">
+            {formatTokenAmount(amount, decimals)} {isOneToken ? 'token' : 'tokens'}
+          </span>
+          <div className="flex items-center gap-2">
+            {frozen && (
+              <Badge className="bg-blue-100 text-blue-800">
+                <Snowflake className="mr-1 h-3 w-3" /> Frozen
+              </Badge>
+            )}
+            <a
+              href={`https://explorer.solana.com/address/${mintAddress}?cluster=devnet`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+            >
+              {formatWalletAddress(mintAddress)} <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="flex-col gap-2">
+        {nonTransferable && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground w-full">
+            <Lock className="h-3 w-3 shrink-0" />
+            The organizer made this token non-transferable, so it stays with this wallet.
+          </p>
+        )}
+        <div className="grid grid-cols-3 gap-2 w-full">
+          <Button
+            variant="outline"
+            onClick={() => setDialog('send')}
+            disabled={isBusy || nonTransferable}
+          >
+            {activeAction === 'send' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onDecompress(token)}
+            disabled={isBusy}
+            title="Move this token into a regular Token-2022 account for apps that only read SPL balances"
+          >
+            {activeAction === 'decompress' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ArrowDownToLine className="mr-2 h-4 w-4" />
+            )}
+            Decompress
+          </Button>
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => setDialog('burn')}
+            disabled={isBusy}
+          >
+            {activeAction === 'burn' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Flame className="mr-2 h-4 w-4" />
+            )}
+            Burn
+          </Button>
+        </div>
+      </CardFooter>
+
+      <SendTokenDialog
+        token={token}
+        ownerAddress={ownerAddress}
+        open={dialog === 'send'}
+        isSending={activeAction === 'send'}
+        onOpenChange={(open) => setDialog(open ? 'send' : null)}
+        onSend={onSend}
+      />
+      <BurnTokenDialog
+        token={token}
+        open={dialog === 'burn'}
+        onOpenChange={(open) => setDialog(open ? 'burn' : null)}
+        onBurn={onBurn}
+      />
+    </Card>
+  );
+};
+
+export default WalletTokenCard;
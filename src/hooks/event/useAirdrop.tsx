@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { toast } from 'sonner';
+import { EventRecord } from '@/lib/db';
+import { parseAllowlist } from '@/utils/allowlist';
+import { airdropCompressedTokens, AirdropProgress, AirdropResult } from '@/utils/token';
+
+export const useAirdrop = (event: EventRecord | null) => {
+  const { publicKey, signTransaction } = useWallet();
+  const [recipientsText, setRecipientsText] = useState('');
+  const [isAirdropping, setIsAirdropping] = useState(false);
+  const [progress, setProgress] = useState<AirdropProgress | null>(null);
+  const [result, setResult] = useState<AirdropResult | null>(null);
+
+  // Recipient lists use the same CSV/JSON formats as allowlists
+  const parseRecipients = (text: string, fileName?: string) => parseAllowlist(text, fileName);
+
+  const importRecipients = async (file: File) => {
+    try {
+      const { wallets, invalidEntries } = parseRecipients(await file.text(), file.name);
+      setRecipientsText(wallets.join('\n'));
+      if (invalidEntries.length > 0) {
+        toast.warning("Some entries were skipped", {
+          description: `${invalidEntries.length} entries in the file are not wallet addresses.`
+        });
+      }
+    } catch (error) {
+      console.error("Error reading recipients:", error);
+      toast.error("Error reading recipients", {
+        description: error instanceof Error ? error.message : "Failed to read the recipient list."
+      });
+    }
+  };
+
+  const fillFromAllowlist = () => {
+    setRecipientsText((event?.allowlist || []).join('\n'));
+  };
+
+  const startAirdrop = async () => {
+    if (!event) return false;
+
+    if (!publicKey || !signTransaction) {
+      toast.error("Wallet not connected", {
+        description: "Please connect the organizer wallet to airdrop tokens."
+      });
+      return false;
+    }
+
+    let wallets: string[];
+    try {
+      const parsed = parseRecipients(recipientsText);
+      wallets = parsed.wallets;
+      if (parsed.invalidEntries.length > 0) {
+        toast.warning("Some entries were skipped", {
+          description: `${parsed.invalidEntries.length} lines are not wallet addresses and won't receive a token.`
+        });
+      }
+    } catch (error) {
+      toast.error("Invalid recipient list", {
+        description: error instanceof Error ? error.message : "Please enter one wallet address per line."
+      });
+      return false;
+    }
+
+    if (wallets.length === 0) {
+      toast.error("No recipients", {
+        description: "Please enter at least one wallet address."
+      });
+      return false;
+    }
+
+    setIsAirdropping(true);
+    setResult(null);
+    try {
+      const airdropResult = await airdropCompressedTokens(
+        event.id,
+        wallets,
+        publicKey.toString(),
+        signTransaction,
+        setProgress
+      );
+      setResult(airdropResult);
+
+      if (airdropResult.failed.length > 0 || airdropResult.inFlight.length > 0) {
+        toast.warning("Airdrop Incomplete", {
+          description: `${airdropResult.confirmed.length} delivered, ${airdropResult.failed.length} failed` +
+            (airdropResult.inFlight.length > 0 ? `, ${airdropResult.inFlight.length} still confirming` : '') +
+            '. Run the airdrop again to retry; delivered wallets are skipped.'
+        });
+      } else {
+        toast.success("Airdrop Complete", {
+          description: `${airdropResult.confirmed.length} wallets received a token` +
+            (airdropResult.alreadyDelivered.length > 0 ? `, ${airdropResult.alreadyDelivered.length} already had one.` : '.')
+        });
+      }
+      return true;
+    } catch (error) {
+      // airdropCompressedTokens already reported the error
+      console.error("Error running airdrop:", error);
+      return false;
+    } finally {
+      setIsAirdropping(false);
+    }
+  };
+
+  return {
+    recipientsText,
+    setRecipientsText,
+    isAirdropping,
+    progress,
+    result,
+    importRecipients,
+    fillFromAllowlist,
+    startAirdrop
+  };
+};
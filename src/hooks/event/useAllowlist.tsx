@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { claimService, eventService, ClaimRecord, EventRecord } from '@/lib/db';
+import { parseAllowlist, getAllowlistCoverage } from '@/utils/allowlist';
+
+export const useAllowlist = (event: EventRecord | null) => {
+  const [allowlist, setAllowlist] = useState<string[]>([]);
+  const [claims, setClaims] = useState<ClaimRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const loadClaims = useCallback(async () => {
+    if (!event) {
+      setClaims([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setClaims(await claimService.getClaimsByEventId(event.id));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [event]);
+
+  useEffect(() => {
+    setAllowlist(event?.allowlist || []);
+    loadClaims();
+  }, [event, loadClaims]);
+
+  const saveAllowlist = async (wallets: string[]) => {
+    if (!event) return false;
+
+    const saved = await eventService.updateEvent(event.id, { allowlist: wallets });
+    if (!saved) {
+      throw new Error('Could not save the allowlist for this event');
+    }
+    setAllowlist(wallets);
+    return true;
+  };
+
+  const importAllowlist = async (file: File) => {
+    if (!event) return false;
+
+    setIsUpdating(true);
+    try {
+      const result = parseAllowlist(await file.text(), file.name);
+      if (result.wallets.length === 0) {
+        throw new Error('The file does not contain any wallet addresses');
+      }
+
+      await saveAllowlist(result.wallets);
+
+      const skipped = result.invalidEntries.length + result.duplicates;
+      toast.success("Allowlist Imported", {
+        description: `${result.wallets.length} wallets can now claim this event.` +
+          (skipped > 0 ? ` ${skipped} invalid or duplicate entries were skipped.` : '')
+      });
+      if (result.invalidEntries.length > 0) {
+        console.warn('Skipped allowlist entries:', result.invalidEntries);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error importing allowlist:", error);
+      toast.error("Error importing allowlist", {
+        description: error instanceof Error ? error.message : "Failed to import the allowlist."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const clearAllowlist = async () => {
+    setIsUpdating(true);
+    try {
+      await saveAllowlist([]);
+      toast.success("Allowlist Removed", {
+        description: "Any wallet can claim this event again."
+      });
+      return true;
+    } catch (error) {
+      console.error("Error removing allowlist:", error);
+      toast.error("Error removing allowlist", {
+        description: error instanceof Error ? error.message : "Failed to remove the allowlist."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    allowlist,
+    coverage: getAllowlistCoverage(allowlist, claims),
+    isLoading,
+    isUpdating,
+    importAllowlist,
+    clearAllowlist,
+    refresh: loadClaims
+  };
+};
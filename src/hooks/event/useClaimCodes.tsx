@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { toast } from 'sonner';
+import { claimCodeService, eventService, ClaimCodeRecord, EventRecord } from '@/lib/db';
+import { generateClaimCodes, hashClaimCode, MAX_CLAIM_CODES_PER_BATCH } from '@/utils/claimCodes';
+import ClaimCodeSheet from '@/components/events/ClaimCodeSheet';
+
+/**
+ * Opens the printable sheet for a batch of codes in a new window
+ */
+const openClaimCodeSheet = (event: EventRecord, codes: string[]): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return false;
+  }
+
+  const markup = renderToStaticMarkup(
+    <ClaimCodeSheet event={event} codes={codes} origin={window.location.origin} />
+  );
+
+  printWindow.document.write(
+    `<!DOCTYPE html><html><head><title>${event.title} claim codes</title>` +
+    `<style>@page { margin: 12mm; } body { margin: 0; }</style></head>` +
+    `<body>${markup}</body></html>`
+  );
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
+
+export const useClaimCodes = (event: EventRecord | null) => {
+  const [codes, setCodes] = useState<ClaimCodeRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [requiresClaimCode, setRequiresClaimCode] = useState(false);
+  // Plain codes only exist in memory right after they are generated
+  const [lastBatch, setLastBatch] = useState<string[]>([]);
+
+  const loadCodes = useCallback(async () => {
+    if (!event) {
+      setCodes([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setCodes(await claimCodeService.getClaimCodesByEventId(event.id));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [event]);
+
+  useEffect(() => {
+    setLastBatch([]);
+    setRequiresClaimCode(!!event?.requiresClaimCode);
+    loadCodes();
+  }, [event, loadCodes]);
+
+  const printSheet = (batch: string[] = lastBatch) => {
+    if (!event || batch.length === 0) return;
+
+    if (!openClaimCodeSheet(event, batch)) {
+      toast.error("Could not open the code sheet", {
+        description: "Please allow pop-ups for this site and try again."
+      });
+    }
+  };
+
+  const generateCodes = async (count: number) => {
+    if (!event) return false;
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_CLAIM_CODES_PER_BATCH) {
+      toast.error("Invalid number of codes", {
+        description: `Please generate between 1 and ${MAX_CLAIM_CODES_PER_BATCH} codes at a time.`
+      });
+      return false;
+    }
+
+    setIsGenerating(true);
+    try {
+      const batch = generateClaimCodes(count);
+      const codeHashes = await Promise.all(batch.map(code => hashClaimCode(event.id, code)));
+      await claimCodeService.saveClaimCodes(event.id, codeHashes);
+
+      if (!requiresClaimCode) {
+        await eventService.updateEvent(event.id, { requiresClaimCode: true });
+        setRequiresClaimCode(true);
+      }
+
+      setLastBatch(batch);
+      await loadCodes();
+
+      toast.success("Claim Codes Generated", {
+        description: `${count} single-use codes were created. Print them now, they can't be shown again.`
+      });
+      printSheet(batch);
+      return true;
+    } catch (error) {
+      console.error("Error generating claim codes:", error);
+      toast.error("Error generating claim codes", {
+        description: error instanceof Error ? error.message : "Failed to generate claim codes."
+      });
+      return false;
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const setClaimCodeRequired = async (required: boolean) => {
+    if (!event) return false;
+
+    const saved = await eventService.updateEvent(event.id, { requiresClaimCode: required });
+    if (!saved) {
+      toast.error("Error updating event", {
+        description: "Could not change the claim code requirement."
+      });
+      return false;
+    }
+
+    setRequiresClaimCode(required);
+    toast.success(required ? "Claim Codes Required" : "Claim Codes Optional", {
+      description: required
+        ? "Attendees now need one of your printed codes to claim."
+        : "Attendees can claim without a code again."
+    });
+    return true;
+  };
+
+  return {
+    codes,
+    usedCount: codes.filter(code => code.status === 'used').length,
+    isLoading,
+    isGenerating,
+    requiresClaimCode,
+    lastBatch,
+    generateCodes,
+    printSheet,
+    setClaimCodeRequired
+  };
+};
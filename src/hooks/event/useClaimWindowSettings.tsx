@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { eventService, EventRecord } from '@/lib/db';
+import { DEFAULT_CLAIM_WINDOW_HOURS } from '@/utils/claimWindow';
+import { toDateTimeLocal } from '@/utils/formatters';
+
+type ClaimWindow = Pick<EventRecord, 'claimOpensAt' | 'claimClosesAt'>;
+
+export const useClaimWindowSettings = (event: EventRecord | null) => {
+  const [claimWindow, setClaimWindow] = useState<ClaimWindow>({});
+  const [opensAtInput, setOpensAtInput] = useState('');
+  const [closesAtInput, setClosesAtInput] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const initial = {
+      claimOpensAt: event?.claimOpensAt,
+      claimClosesAt: event?.claimClosesAt
+    };
+    setClaimWindow(initial);
+    setOpensAtInput(toDateTimeLocal(initial.claimOpensAt));
+    setClosesAtInput(toDateTimeLocal(initial.claimClosesAt));
+  }, [event]);
+
+  const saveWindow = async (update: ClaimWindow, successMessage: string) => {
+    if (!event) return false;
+
+    setIsUpdating(true);
+    try {
+      const opensAt = update.claimOpensAt ? new Date(update.claimOpensAt).getTime() : null;
+      const closesAt = update.claimClosesAt ? new Date(update.claimClosesAt).getTime() : null;
+      if (opensAt !== null && closesAt !== null && closesAt <= opensAt) {
+        throw new Error('Claims must close after they open');
+      }
+
+      const saved = await eventService.updateEvent(event.id, update);
+      if (!saved) {
+        throw new Error('Could not save the claim window for this event');
+      }
+
+      setClaimWindow(update);
+      setOpensAtInput(toDateTimeLocal(update.claimOpensAt));
+      setClosesAtInput(toDateTimeLocal(update.claimClosesAt));
+      toast.success("Claim Window Updated", { description: successMessage });
+      return true;
+    } catch (error) {
+      console.error("Error updating claim window:", error);
+      toast.error("Error updating claim window", {
+        description: error instanceof Error ? error.message : "Failed to update the claim window."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // An empty input clears that end of the window
+  const toIso = (value: string) => value ? new Date(value).toISOString() : null;
+
+  const saveInputs = () => saveWindow(
+    { claimOpensAt: toIso(opensAtInput), claimClosesAt: toIso(closesAtInput) },
+    "Attendees can claim between the new opening and closing times."
+  );
+
+  // Pushes the close back from whichever is later: now or the current close
+  const extendWindow = (hours: number = DEFAULT_CLAIM_WINDOW_HOURS) => {
+    const currentClose = claimWindow.claimClosesAt ? new Date(claimWindow.claimClosesAt).getTime() : 0;
+    const closesAt = Math.max(Date.now(), currentClose) + hours * 60 * 60 * 1000;
+    return saveWindow(
+      { ...claimWindow, claimClosesAt: new Date(closesAt).toISOString() },
+      `Claims now close ${hours} hours later.`
+    );
+  };
+
+  const closeNow = () => {
+    const now = new Date().toISOString();
+    const opensAt = claimWindow.claimOpensAt && claimWindow.claimOpensAt < now ? claimWindow.claimOpensAt : null;
+    return saveWindow(
+      { claimOpensAt: opensAt, claimClosesAt: now },
+      "No more tokens can be claimed for this event."
+    );
+  };
+
+  return {
+    claimWindow,
+    opensAtInput,
+    setOpensAtInput,
+    closesAtInput,
+    setClosesAtInput,
+    isUpdating,
+    saveInputs,
+    extendWindow,
+    closeNow
+  };
+};
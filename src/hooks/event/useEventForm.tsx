@@ -13,6 +13,8 @@ export const useEventForm = () => {
     symbol: '',
     decimals: 0,
     imageUrl: '',
+    claimOpensAt: '',
+    claimClosesAt: '',
   });
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet, useConnection } from '@solana/wallet-adapter-react';
+import { toast } from 'sonner';
+import { EventRecord } from '@/lib/db';
+import { getEventHealth, EventHealth, EventHealthCheck } from '@/utils/token';
+import { repairEventStep } from '@/utils/eventServices';
+
+const HEALTH_CHECK_LABELS: Record<EventHealthCheck, string> = {
+  mint: 'Token mint',
+  metadata: 'Token metadata',
+  pool: 'Token pool',
+  supply: 'Compressed supply'
+};
+
+/**
+ * Checks the on-chain setup of the organizer's events and repairs a failed
+ * step by rerunning just that step
+ */
+export const useEventHealth = (
+  events: EventRecord[],
+  onEventRepaired: (event: EventRecord) => void
+) => {
+  const { connection } = useConnection();
+  const { publicKey, signTransaction, signAllTransactions, signMessage } = useWallet();
+  const [health, setHealth] = useState<Record<string, EventHealth>>({});
+  const [checkingEventIds, setCheckingEventIds] = useState<string[]>([]);
+  const [repairing, setRepairing] = useState<{ eventId: string, step: EventHealthCheck } | null>(null);
+
+  const checkEvent = useCallback(async (event: EventRecord) => {
+    setCheckingEventIds(ids => [...ids, event.id]);
+    try {
+      const eventHealth = await getEventHealth(event);
+      setHealth(current => ({ ...current, [event.id]: eventHealth }));
+    } catch (error) {
+      console.error(`Error checking the health of event ${event.id}:`, error);
+    } finally {
+      setCheckingEventIds(ids => ids.filter(id => id !== event.id));
+    }
+  }, []);
+
+  // One event at a time, a dashboard full of events shouldn't flood the RPC
+  const refresh = useCallback(async () => {
+    for (const event of events) {
+      await checkEvent(event);
+    }
+  }, [events, checkEvent]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const repair = async (event: EventRecord, step: EventHealthCheck) => {
+    if (!publicKey || !signTransaction) {
+      toast.error("Wallet not connected", {
+        description: "Please connect the organizer wallet to repair the event."
+      });
+      return false;
+    }
+
+    setRepairing({ eventId: event.id, step });
+    try {
+      const repaired = await repairEventStep(
+        event,
+        step,
+        publicKey.toBase58(),
+        connection,
+        { signTransaction, signAllTransactions },
+        signMessage
+      );
+      setHealth(current => ({ ...current, [event.id]: repaired.health }));
+      onEventRepaired(repaired.event);
+
+      if (repaired.health[step]) {
+        toast.success(`${HEALTH_CHECK_LABELS[step]} repaired`, {
+          description: "The step landed on chain."
+        });
+      } else {
+        toast.warning(`${HEALTH_CHECK_LABELS[step]} still failing`, {
+          description: "The transactions went through, but the check still fails. Try again in a moment."
+        });
+      }
+      return true;
+    } catch (error) {
+      console.error(`Error repairing the ${step} of event ${event.id}:`, error);
+      toast.error("Repair failed", {
+        description: error instanceof Error ? error.message : "Failed to repair the event."
+      });
+      return false;
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  return {
+    health,
+    checkingEventIds,
+    repairing,
+    checkEvent,
+    refresh,
+    repair
+  };
+};
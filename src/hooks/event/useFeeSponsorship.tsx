@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { toast } from 'sonner';
+import { claimService, eventService, ClaimRecord, EventRecord } from '@/lib/db';
+import { FeeSponsorship, getSponsorshipBudget } from '@/utils/feeSponsorship';
+import { fundFeePayer, getFeePayerBalance } from '@/utils/token';
+
+const DEFAULT_BUDGET_SOL = 0.05;
+
+export const useFeeSponsorship = (event: EventRecord | null) => {
+  const { connection } = useConnection();
+  const { publicKey, signTransaction } = useWallet();
+  const [sponsorship, setSponsorship] = useState<FeeSponsorship>({ enabled: false, budgetLamports: 0 });
+  const [budgetSolInput, setBudgetSolInput] = useState('');
+  const [claims, setClaims] = useState<ClaimRecord[] | null>(null);
+  const [feePayerBalance, setFeePayerBalance] = useState<number | null>(null);
+  // The fee account can never spend below the rent-exempt minimum
+  const [rentExemptLamports, setRentExemptLamports] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isFunding, setIsFunding] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!event) {
+      setClaims(null);
+      setFeePayerBalance(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setClaims(await claimService.getClaimsByEventId(event.id));
+      setFeePayerBalance(event.claimAuthority ? await getFeePayerBalance(event.id) : null);
+      setRentExemptLamports(await connection.getMinimumBalanceForRentExemption(0));
+    } catch (error) {
+      console.error("Error loading fee sponsorship:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [event, connection]);
+
+  useEffect(() => {
+    const initial = event?.feeSponsorship || { enabled: false, budgetLamports: 0 };
+    setSponsorship(initial);
+    setBudgetSolInput(String(initial.budgetLamports ? initial.budgetLamports / LAMPORTS_PER_SOL : DEFAULT_BUDGET_SOL));
+  }, [event]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const budget = claims ? getSponsorshipBudget({ feeSponsorship: sponsorship }, claims) : null;
+  const requiredBalance = budget ? budget.remainingLamports + rentExemptLamports : null;
+
+  const saveSponsorship = async (enabled: boolean) => {
+    if (!event) return false;
+
+    setIsUpdating(true);
+    try {
+      const budgetSol = parseFloat(budgetSolInput);
+      if (!isFinite(budgetSol) || budgetSol < 0) {
+        throw new Error('Please enter a budget in SOL');
+      }
+
+      const update: FeeSponsorship = { enabled, budgetLamports: Math.round(budgetSol * LAMPORTS_PER_SOL) };
+      const saved = await eventService.updateEvent(event.id, { feeSponsorship: update });
+      if (!saved) {
+        throw new Error('Could not save fee sponsorship for this event');
+      }
+      setSponsorship(update);
+
+      toast.success(enabled ? "Claims Sponsored" : "Sponsorship Off", {
+        description: enabled
+          ? `Attendee fees are paid from a budget of ${budgetSol} SOL.`
+          : "Attendees pay their own claim fees again."
+      });
+      return true;
+    } catch (error) {
+      console.error("Error saving fee sponsorship:", error);
+      toast.error("Error saving fee sponsorship", {
+        description: error instanceof Error ? error.message : "Failed to save fee sponsorship."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Tops the fee account up to whatever the remaining budget can still spend,
+  // on top of the rent-exempt minimum it has to keep
+  const fundFeeAccount = async () => {
+    if (!event || !budget) return false;
+
+    if (!publicKey || !signTransaction) {
+      toast.error("Wallet not connected", {
+        description: "Please connect the organizer wallet to fund the fee account."
+      });
+      return false;
+    }
+
+    let rentExempt: number;
+    try {
+      rentExempt = await connection.getMinimumBalanceForRentExemption(0);
+    } catch (error) {
+      console.error("Error reading the fee account's rent-exempt minimum:", error);
+      toast.error("Error funding fee account", {
+        description: "Could not work out how much SOL the fee account needs. Please try again."
+      });
+      return false;
+    }
+
+    const shortfall = budget.remainingLamports + rentExempt - (feePayerBalance || 0);
+    if (shortfall <= 0) {
+      toast.info("Fee Account Funded", {
+        description: "The fee account already holds enough SOL for the remaining budget."
+      });
+      return true;
+    }
+
+    setIsFunding(true);
+    try {
+      await fundFeePayer(event.id, shortfall, publicKey.toString(), signTransaction);
+      toast.success("Fee Account Funded", {
+        description: `Added ${shortfall / LAMPORTS_PER_SOL} SOL to the fee account.`
+      });
+      await refresh();
+      return true;
+    } catch (error) {
+      // fundFeePayer already reported the error
+      console.error("Error funding fee account:", error);
+      return false;
+    } finally {
+      setIsFunding(false);
+    }
+  };
+
+  return {
+    sponsorship,
+    budgetSolInput,
+    setBudgetSolInput,
+    budget,
+    feePayer: event?.claimAuthority || null,
+    feePayerBalance,
+    requiredBalance,
+    isLoading,
+    isUpdating,
+    isFunding,
+    saveSponsorship,
+    fundFeeAccount,
+    refresh
+  };
+};
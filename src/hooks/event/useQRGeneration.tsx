@@ -1,19 +1,31 @@
 
 import { useState } from 'react';
 import { toast } from 'sonner';
+import { useWallet } from '@solana/wallet-adapter-react';
 import { CreationStep } from './useEventCreationState';
+import { createQrPayload, encodeClaimPayload, QrPayload } from '@/utils/qrPayload';
+import { saveSetupProgress } from '@/utils/eventServices';
 
 export const useQRGeneration = (setStep: (step: CreationStep) => void) => {
+  const { publicKey, signMessage } = useWallet();
   const [isLoading, setIsLoading] = useState(false);
   const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const [qrPayload, setQrPayload] = useState<QrPayload | null>(null);
 
-  const generateQRCode = async (eventId: string | null) => {
-    if (!eventId) {
+  const generateQRCode = async (eventId: string | null, mintAddress: string | null) => {
+    if (!eventId || !mintAddress) {
       toast.error("Cannot generate QR code", {
         description: "Missing event information"
       });
       return false;
     }
+    
+    if (!publicKey || !signMessage) {
+      toast.error("Cannot generate QR code", {
+        description: "Your wallet must support message signing to sign the event QR code."
+      });
+      return false;
+    }
 
     setIsLoading(true);
     setStep(CreationStep.GENERATING_QR);
@@ -21,15 +33,20 @@ export const useQRGeneration = (setStep: (step: CreationStep) => void) => {
     try {
       console.log("Generating QR code for event ID:", eventId);
       
+      // Sign the event details so scanners can check the QR code came from the organizer
+      const payload = await createQrPayload(eventId, mintAddress, publicKey, signMessage);
+      
       // Generate the full claim URL with the host to ensure it's a valid URL for QR scanning
-      const claimUrl = `${window.location.origin}/claim/${eventId}`;
+      const claimUrl = encodeClaimPayload(payload);
       console.log("Generated claim URL:", claimUrl);
       
       // Set the QR code URL
+      setQrPayload(payload);
       setQrCodeUrl(claimUrl);
       
       // Update step
       setStep(CreationStep.COMPLETE);
+      await saveSetupProgress(eventId, { step: 'complete' });
       
       toast.success("QR Code Generated!", {
         description: "Your QR code is ready for sharing with attendees."
@@ -62,6 +79,7 @@ export const useQRGeneration = (setStep: (step: CreationStep) => void) => {
   return {
     isLoading,
     qrCodeUrl,
+    qrPayload,
     generateQRCode,
     downloadQRCode
   };
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { Keypair } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { toast } from 'sonner';
+import bs58 from 'bs58';
+import { eventService, claimService, rotatingQrSessionService, RotatingQrConfig, RotationToken } from '@/lib/db';
+import { QrPayload, encodeClaimPayload } from '@/utils/qrPayload';
+import {
+  createRotatingQrSession,
+  createRotationToken,
+  DEFAULT_ROTATION_INTERVAL_SECONDS,
+  DEFAULT_ROTATION_GRACE_SECONDS
+} from '@/utils/rotatingQr';
+
+// How often the shown nonce is checked for a claim that used it up
+const USED_NONCE_CHECK_SECONDS = 3;
+
+export const useRotatingQR = (eventId: string | null, qrPayload: QrPayload | null) => {
+  const { signMessage } = useWallet();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [config, setConfig] = useState<RotatingQrConfig | null>(null);
+  const [sessionKeypair, setSessionKeypair] = useState<Keypair | null>(null);
+  const [rotatingQrUrl, setRotatingQrUrl] = useState<string | null>(null);
+  const [rotationToken, setRotationToken] = useState<RotationToken | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [intervalSeconds, setIntervalSeconds] = useState(DEFAULT_ROTATION_INTERVAL_SECONDS);
+  const [graceSeconds, setGraceSeconds] = useState(DEFAULT_ROTATION_GRACE_SECONDS);
+
+  const isRotating = !!(config?.enabled && sessionKeypair && qrPayload && eventId);
+
+  // Pick up the rotation saved for the event, e.g. after a reload. The session
+  // key is only kept on the device that enabled rotation. Without it no valid
+  // code can be shown, so rotation is switched off rather than left on with a
+  // static code that claims would be rejected with.
+  useEffect(() => {
+    setConfig(null);
+    setSessionKeypair(null);
+    if (!eventId) return;
+
+    let cancelled = false;
+    const loadRotation = async () => {
+      const saved = (await eventService.getEventById(eventId))?.rotatingQr;
+      if (cancelled || !saved) return;
+
+      setIntervalSeconds(saved.intervalSeconds);
+      setGraceSeconds(saved.graceSeconds);
+      if (!saved.enabled) {
+        setConfig(saved);
+        return;
+      }
+
+      const session = await rotatingQrSessionService.getSessionByEventId(eventId);
+      if (cancelled) return;
+      if (session?.sessionKey === saved.sessionKey) {
+        setSessionKeypair(Keypair.fromSecretKey(bs58.decode(session.secretKey)));
+        setConfig(saved);
+        return;
+      }
+
+      const disabledConfig = { ...saved, enabled: false };
+      const disabled = await eventService.updateEvent(eventId, { rotatingQr: disabledConfig });
+      if (cancelled) return;
+      setConfig(disabled ? disabledConfig : saved);
+      toast.warning("Rotating QR turned off", {
+        description: disabled
+          ? "The codes were signed on another device or browser. Turn rotating codes on again to show them here."
+          : "The codes were signed on another device or browser and can't be shown here."
+      });
+    };
+
+    loadRotation().catch(error => console.error("Error loading rotating QR settings:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  // Issue a fresh signed nonce every interval while rotation is on, and as
+  // soon as a claim uses the shown one, since each nonce claims only once
+  useEffect(() => {
+    if (!isRotating) {
+      setRotatingQrUrl(null);
+      setRotationToken(null);
+      return;
+    }
+
+    let issuedAt = Date.now();
+    let nonce = '';
+    let checkingNonce = false;
+    let cancelled = false;
+    const rotate = () => {
+      issuedAt = Date.now();
+      const rotation = createRotationToken(eventId!, sessionKeypair!, issuedAt);
+      nonce = rotation.nonce;
+      setRotatingQrUrl(encodeClaimPayload({ ...qrPayload!, rotation }));
+      setRotationToken(rotation);
+      setSecondsLeft(config!.intervalSeconds);
+    };
+
+    const rotateIfNonceUsed = async () => {
+      const shownNonce = nonce;
+      checkingNonce = true;
+      try {
+        const claims = await claimService.getClaimsByEventId(eventId!);
+        if (!cancelled && nonce === shownNonce && claims.some(claim => claim.rotationToken?.nonce === shownNonce)) {
+          rotate();
+        }
+      } catch (error) {
+        console.error("Error checking the rotating QR nonce:", error);
+      } finally {
+        checkingNonce = false;
+      }
+    };
+
+    let ticks = 0;
+    rotate();
+    const timer = setInterval(() => {
+      const remaining = config!.intervalSeconds - Math.floor((Date.now() - issuedAt) / 1000);
+      if (remaining <= 0) {
+        rotate();
+        return;
+      }
+      setSecondsLeft(remaining);
+      ticks++;
+      if (ticks % USED_NONCE_CHECK_SECONDS === 0 && !checkingNonce) {
+        rotateIfNonceUsed();
+      }
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isRotating, config, sessionKeypair, qrPayload, eventId]);
+
+  const enableRotation = async () => {
+    if (!eventId || !qrPayload) {
+      toast.error("Cannot enable rotating codes", {
+        description: "Generate the event QR code first."
+      });
+      return false;
+    }
+
+    if (!signMessage) {
+      toast.error("Cannot enable rotating codes", {
+        description: "Your wallet must support message signing to authorize rotating codes."
+      });
+      return false;
+    }
+
+    if (intervalSeconds < 5 || graceSeconds < 0) {
+      toast.error("Invalid rotation settings", {
+        description: "Codes must rotate at least every 5 seconds and the grace window can't be negative."
+      });
+      return false;
+    }
+
+    setIsUpdating(true);
+    try {
+      // The wallet signs once to delegate nonce signing to a session key
+      const session = await createRotatingQrSession(eventId, intervalSeconds, graceSeconds, signMessage);
+
+      // Kept on this device so rotation survives a reload
+      await rotatingQrSessionService.saveSession({
+        eventId,
+        sessionKey: session.config.sessionKey,
+        secretKey: bs58.encode(session.sessionKeypair.secretKey),
+        createdAt: new Date().toISOString()
+      });
+
+      const saved = await eventService.updateEvent(eventId, { rotatingQr: session.config });
+      if (!saved) {
+        throw new Error('Could not save rotation settings for this event');
+      }
+
+      setSessionKeypair(session.sessionKeypair);
+      setConfig(session.config);
+
+      toast.success("Rotating QR Enabled", {
+        description: `The code now changes every ${intervalSeconds} seconds and after each claim. Only the current code can be used to claim.`
+      });
+      return true;
+    } catch (error) {
+      console.error("Error enabling rotating QR:", error);
+      toast.error("Error enabling rotating codes", {
+        description: error instanceof Error ? error.message : "Failed to enable rotating codes."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const disableRotation = async () => {
+    if (!eventId || !config) return false;
+
+    setIsUpdating(true);
+    try {
+      const disabledConfig = { ...config, enabled: false };
+      const saved = await eventService.updateEvent(eventId, { rotatingQr: disabledConfig });
+      if (!saved) {
+        throw new Error('Could not save rotation settings for this event');
+      }
+      await rotatingQrSessionService.deleteSession(eventId);
+      setConfig(disabledConfig);
+      setSessionKeypair(null);
+
+      toast.success("Rotating QR Disabled", {
+        description: "The static event QR code can be used to claim again."
+      });
+      return true;
+    } catch (error) {
+      console.error("Error disabling rotating QR:", error);
+      toast.error("Error disabling rotating codes", {
+        description: error instanceof Error ? error.message : "Failed to disable rotating codes."
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    isRotating,
+    isUpdating,
+    rotatingQrUrl,
+    rotationToken,
+    secondsLeft,
+    intervalSeconds,
+    graceSeconds,
+    setIntervalSeconds,
+    setGraceSeconds,
+    enableRotation,
+    disableRotation
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { EventRecord } from '@/lib/db';
+import { getIncompleteEvents, resolveSetupResumeStep } from '@/utils/eventServices';
+import { CreationStep } from './useEventCreationState';
+
+/**
+ * Lists the organizer's events whose setup was interrupted and resumes one
+ * at the first step that hasn't landed on chain
+ */
+export const useSetupResume = (
+  walletPublicKey: string | null,
+  onResume: (event: EventRecord, step: CreationStep) => void
+) => {
+  const [incompleteEvents, setIncompleteEvents] = useState<EventRecord[]>([]);
+  const [resumingEventId, setResumingEventId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!walletPublicKey) {
+      setIncompleteEvents([]);
+      return;
+    }
+
+    try {
+      setIncompleteEvents(await getIncompleteEvents(walletPublicKey));
+    } catch (error) {
+      console.error('Error loading incomplete events:', error);
+    }
+  }, [walletPublicKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const resumeSetup = async (eventId: string) => {
+    const event = incompleteEvents.find(e => e.id === eventId);
+    if (!event) return false;
+
+    setResumingEventId(eventId);
+    try {
+      const step = await resolveSetupResumeStep(event);
+      onResume(event, step as CreationStep);
+      return true;
+    } catch (error) {
+      console.error('Error resuming event setup:', error);
+      toast.error("Can't resume setup", {
+        description: error instanceof Error ? error.message : "Failed to check the event's setup on chain."
+      });
+      return false;
+    } finally {
+      setResumingEventId(null);
+    }
+  };
+
+  return {
+    incompleteEvents,
+    resumingEventId,
+    resumeSetup,
+    refresh
+  };
+};
@@ -6,13 +6,15 @@ import { toast } from 'sonner';
 import { createEvent } from '@/utils/eventServices';
 import { EventDetails } from '@/utils/types';
 import { CreationStep } from './useEventCreationState';
+import { resolveClaimWindow } from '@/utils/claimWindow';
+import { EventRecord } from '@/lib/db';
 
 export const useTokenCreation = (
   setStep: (step: CreationStep) => void,
   walletPublicKey: string | null
 ) => {
   const { connection } = useConnection();
-  const { signTransaction } = useWallet();
+  const { signTransaction, signAllTransactions, signMessage } = useWallet();
   const [isLoading, setIsLoading] = useState(false);
   const [mintAddress, setMintAddress] = useState<string | null>(null);
   const [eventId, setEventId] = useState<string | null>(null);
@@ -59,6 +61,16 @@ export const useTokenCreation = (
       return false;
     }
 
+    // Check the claim window before anything is minted
+    try {
+      resolveClaimWindow(eventDetails);
+    } catch (windowError) {
+      toast.error("Invalid claim window", {
+        description: windowError instanceof Error ? windowError.message : "Please check the claim opening and closing times."
+      });
+      return false;
+    }
+
     setIsLoading(true);
     setStep(CreationStep.CREATING_TOKEN);
     setError(null); // Reset any previous errors
@@ -86,7 +98,8 @@ export const useTokenCreation = (
         eventDetails, 
         walletPublicKey,
         connection,
-        signTransaction
+        { signTransaction, signAllTransactions },
+        signMessage
       );
       
       console.log("Token creation successful:", tokenResult);
@@ -139,12 +152,20 @@ export const useTokenCreation = (
     }
   };
 
+  // Pick up an event whose token was created before the wizard was left
+  const restoreToken = (event: EventRecord) => {
+    setMintAddress(event.mintAddress);
+    setEventId(event.id);
+    setTransactionId(event.transactionId);
+  };
+
   return {
     isLoading,
     mintAddress,
     eventId,
     transactionId,
     error,
-    createToken
+    createToken,
+    restoreToken
   };
 };
@@ -8,7 +8,7 @@ import { CreationStep } from './useEventCreationState';
 
 export const useTokenPool = (setStep: (step: CreationStep) => void) => {
   const { connection } = useConnection();
-  const { signTransaction } = useWallet();
+  const { signTransaction, signAllTransactions } = useWallet();
   const [isLoading, setIsLoading] = useState(false);
   const [poolTransactionId, setPoolTransactionId] = useState<string | null>(null);
   const [retries, setRetries] = useState(0);
@@ -27,7 +27,7 @@ export const useTokenPool = (setStep: (step: CreationStep) => void) => {
     
     console.log("Starting token pool creation process...");
     toast.info("Creating compression pool...", {
-      description: "Please approve the transaction in your wallet."
+      description: "Please approve the pool and supply transactions in your wallet."
     });
 
     try {
@@ -38,13 +38,13 @@ export const useTokenPool = (setStep: (step: CreationStep) => void) => {
         mintAddress, 
         walletPublicKey,
         connection,
-        signTransaction
+        { signTransaction, signAllTransactions }
       );
       
       console.log("Pool creation successful:", poolResult);
       
       // Update with pool transaction ID
-      setPoolTransactionId(poolResult.transactionId);
+      setPoolTransactionId(poolResult.transactionId || null);
       
       // Update step
       setStep(CreationStep.POOL_CREATED);
@@ -106,6 +106,7 @@ export const useTokenPool = (setStep: (step: CreationStep) => void) => {
   return {
     isLoading,
     poolTransactionId,
+    setPoolTransactionId,
     createTokenPool
   };
 };
@@ -1,14 +1,45 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
 import { useQrScanner } from './useQrScanner';
 import { useEventData } from './useEventData';
 import { useTokenClaiming } from './useTokenClaiming';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { RotationToken } from '@/lib/db';
+import { decodeClaimSearchParams, DecodedClaimPayload, QrPayloadError, QR_PAYLOAD_VERSION } from '@/utils/qrPayload';
 
 export const useClaimToken = (initialEventId: string | undefined) => {
-  const [eventId, setEventId] = useState<string | undefined>(initialEventId);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [eventId, setEventId] = useState<string | undefined>(undefined);
+  const [claimPayload, setClaimPayload] = useState<DecodedClaimPayload | null>(null);
+  const [claimCode, setClaimCode] = useState('');
   const { connected } = useWallet();
   
+  // Decode the signed payload carried in the claim link, if any. Scans and
+  // manual entry navigate here, so this also picks up newly scanned codes.
+  useEffect(() => {
+    if (!initialEventId) {
+      setEventId(undefined);
+      setClaimPayload(null);
+      return;
+    }
+    
+    try {
+      const payload = decodeClaimSearchParams(initialEventId, searchParams);
+      setClaimPayload(payload);
+      setEventId(payload.eventId);
+      setClaimCode(payload.claimCode || '');
+    } catch (error) {
+      console.error('Invalid claim link:', error);
+      toast.error("Invalid Claim Link", {
+        description: error instanceof QrPayloadError ? error.message : "This claim link could not be read."
+      });
+      navigate('/claim');
+    }
+  }, [initialEventId, searchParams, navigate]);
+  
   const {
     isScanning,
     manualEntryMode,
@@ -23,60 +54,22 @@ export const useClaimToken = (initialEventId: string | undefined) => {
     stopScanning
   } = useQrScanner();
   
+  const signedPayload = claimPayload?.version === QR_PAYLOAD_VERSION ? claimPayload : null;
+  
   const {
     eventData,
     isVerifying
-  } = useEventData(eventId);
+  } = useEventData(eventId, signedPayload ?? undefined);
   
   const {
     isClaiming,
     hasClaimed,
+    isAllowlisted,
     handleClaimToken
-  } = useTokenClaiming(eventId);
-
-  // Enhanced scan handler that updates the eventId
-  const handleEnhancedScan = (data: any) => {
-    handleScan(data);
-    if (data && data.text) {
-      try {
-        let extractedId;
-        
-        // Try to extract the event ID from different formats
-        if (data.text.includes('/claim/')) {
-          // Format: https://domain.com/claim/abc123
-          const url = new URL(data.text);
-          extractedId = url.pathname.split('/claim/')[1];
-        } else if (data.text.startsWith('{')) {
-          // Format: JSON object with eventId property
-          try {
-            const jsonData = JSON.parse(data.text);
-            extractedId = jsonData.eventId;
-          } catch (e) {
-            console.error('Failed to parse JSON from QR code:', e);
-          }
-        } else {
-          // Format: Direct event ID string
-          extractedId = data.text;
-        }
-        
-        if (extractedId) {
-          console.log('Setting event ID from scan:', extractedId);
-          setEventId(extractedId);
-        }
-      } catch (error) {
-        console.error('Error processing QR scan data:', error);
-      }
-    }
-  };
-
-  // Enhanced manual submit that updates the eventId
-  const handleEnhancedManualSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (manualEventId.trim()) {
-      setEventId(manualEventId.trim());
-    }
-    handleManualSubmit(e);
-  };
+  } = useTokenClaiming(eventId, {
+    rotationToken: signedPayload?.rotation as RotationToken | undefined,
+    claimCode: claimCode.trim() || undefined
+  });
 
   return {
     isScanning,
@@ -84,15 +77,19 @@ export const useClaimToken = (initialEventId: string | undefined) => {
     isVerifying,
     eventData,
     hasClaimed,
+    isAllowlisted,
     manualEntryMode,
     manualEventId,
     connected,
     eventId,
     scanError,
-    handleScan: handleEnhancedScan,
+    claimPayload,
+    claimCode,
+    setClaimCode,
+    handleScan,
     handleError,
     handleClaimToken,
-    handleManualSubmit: handleEnhancedManualSubmit,
+    handleManualSubmit,
     setManualEventId,
     toggleManualEntryMode,
     startScanning,
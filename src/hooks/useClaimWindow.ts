@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { EventRecord } from '@/lib/db';
+import { getClaimWindowState } from '@/utils/claimWindow';
+
+/**
+ * Tracks an event's claim window, re-evaluating it every second so countdowns
+ * stay current and the state flips as soon as the window opens or closes
+ */
+export const useClaimWindow = (eventData: Pick<EventRecord, 'claimOpensAt' | 'claimClosesAt'> | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const hasWindow = Boolean(eventData?.claimOpensAt || eventData?.claimClosesAt);
+
+  useEffect(() => {
+    if (!hasWindow) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasWindow]);
+
+  return eventData ? getClaimWindowState(eventData, now) : null;
+};
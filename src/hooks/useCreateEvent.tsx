@@ -4,7 +4,11 @@ import { useEventForm } from './event/useEventForm';
 import { useTokenCreation } from './event/useTokenCreation';
 import { useTokenPool } from './event/useTokenPool';
 import { useQRGeneration } from './event/useQRGeneration';
+import { useRotatingQR } from './event/useRotatingQR';
 import { useEventCreationState, CreationStep } from './event/useEventCreationState';
+import { useSetupResume } from './event/useSetupResume';
+import { EventRecord } from '@/lib/db';
+import { toDateTimeLocal } from '@/utils/formatters';
 
 // Re-export CreationStep enum for use in components
 export { CreationStep } from './event/useEventCreationState';
@@ -12,31 +16,58 @@ export { CreationStep } from './event/useEventCreationState';
 export const useCreateEvent = (walletPublicKey: string | null) => {
   const { publicKey } = useWallet();
   const { step, setStep } = useEventCreationState();
-  const { eventDetails, handleInputChange } = useEventForm();
+  const { eventDetails, setEventDetails, handleInputChange } = useEventForm();
   
   const { 
     isLoading: tokenCreationLoading,
     mintAddress,
     eventId,
     transactionId,
-    createToken
+    createToken,
+    restoreToken
   } = useTokenCreation(setStep, walletPublicKey);
   
   const {
     isLoading: poolCreationLoading,
     poolTransactionId,
+    setPoolTransactionId,
     createTokenPool
   } = useTokenPool(setStep);
   
   const {
     isLoading: qrGenerationLoading,
     qrCodeUrl,
+    qrPayload,
     generateQRCode,
     downloadQRCode
   } = useQRGeneration(setStep);
+  
+  const rotatingQR = useRotatingQR(eventId, qrPayload);
+
+  // Put an interrupted event back into the wizard at the step it resumes from
+  const restoreEvent = (event: EventRecord, resumeStep: CreationStep) => {
+    setEventDetails({
+      title: event.title,
+      location: event.location,
+      date: event.date,
+      time: event.time,
+      description: event.description,
+      attendeeCount: event.attendeeCount,
+      symbol: event.symbol,
+      decimals: event.decimals,
+      imageUrl: event.imageUrl,
+      claimOpensAt: toDateTimeLocal(event.claimOpensAt),
+      claimClosesAt: toDateTimeLocal(event.claimClosesAt)
+    });
+    restoreToken(event);
+    setPoolTransactionId(event.setup?.poolTransactionId || null);
+    setStep(resumeStep);
+  };
+
+  const { incompleteEvents, resumingEventId, resumeSetup } = useSetupResume(walletPublicKey, restoreEvent);
 
   // Combine loading states
-  const isLoading = tokenCreationLoading || poolCreationLoading || qrGenerationLoading;
+  const isLoading = tokenCreationLoading || poolCreationLoading || qrGenerationLoading || !!resumingEventId;
 
   // Handle form submission for token creation
   const handleCreateEvent = async (e: React.FormEvent) => {
@@ -50,7 +81,7 @@ export const useCreateEvent = (walletPublicKey: string | null) => {
 
   // Handle QR code generation
   const handleGenerateQR = async () => {
-    return await generateQRCode(eventId);
+    return await generateQRCode(eventId, mintAddress);
   };
 
   return {
@@ -66,6 +97,10 @@ export const useCreateEvent = (walletPublicKey: string | null) => {
     handleCreateEvent,
     handleCreateTokenPool,
     handleGenerateQR,
-    downloadQRCode
+    downloadQRCode,
+    rotatingQR,
+    incompleteEvents,
+    resumingEventId,
+    resumeSetup
   };
 };
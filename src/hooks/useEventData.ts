@@ -2,11 +2,29 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
+import { PublicKey } from '@solana/web3.js';
+import { useConnection } from '@solana/wallet-adapter-react';
 import { getEventDetails } from '@/utils/eventServices';
+import { resolveEventFromMint } from '@/utils/token';
 import { eventService, poolService } from '@/lib/db';
+import { assertPayloadMatchesEvent, QrPayload, QrPayloadError } from '@/utils/qrPayload';
 
-export const useEventData = (eventId: string | undefined) => {
+// Returns true when the value is a base58 public key, i.e. it could be a mint address
+const isPublicKey = (value: string): boolean => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const useEventData = (
+  eventId: string | undefined,
+  signedPayload?: Pick<QrPayload, 'mint' | 'organizer'>
+) => {
   const navigate = useNavigate();
+  const { connection } = useConnection();
   const [isVerifying, setIsVerifying] = useState(false);
   const [eventData, setEventData] = useState<any>(null);
 
@@ -15,7 +33,7 @@ export const useEventData = (eventId: string | undefined) => {
     if (eventId) {
       fetchEventData(eventId);
     }
-  }, [eventId]);
+  }, [eventId, signedPayload?.mint, signedPayload?.organizer]);
 
   const fetchEventData = async (id: string) => {
     setIsVerifying(true);
@@ -23,7 +41,15 @@ export const useEventData = (eventId: string | undefined) => {
       console.log('Fetching event data for ID:', id);
       
       // Get event data from our persistent database
-      const data = await eventService.getEventById(id);
+      let data = await eventService.getEventById(id);
+      
+      // Fall back to the Token-2022 metadata on the mint when this device has
+      // never seen the event
+      const mint = signedPayload?.mint || (isPublicKey(id) ? id : null);
+      if (!data && mint) {
+        console.log('Event not stored locally, resolving from mint:', mint);
+        data = await resolveEventFromMint(connection, mint);
+      }
       
       if (!data) {
         console.error('Event not found');
@@ -36,22 +62,35 @@ export const useEventData = (eventId: string | undefined) => {
       
       console.log('Event data retrieved:', data);
       
+      // A signed link has to belong to the event it opened
+      if (signedPayload) {
+        assertPayloadMatchesEvent(signedPayload, data);
+      }
+      
       // Check if this event has an associated token pool
       const poolData = await poolService.getPoolByEventId(id);
       
       // Add pool data to event data if available
       const eventWithPool = {
         ...data,
+        organizer: data.creator,
         poolAddress: poolData?.poolAddress,
-        poolTransactionId: poolData?.transactionId
+        poolTransactionId: poolData?.transactionId,
+        stateTreeAddress: poolData?.stateTreeAddress
       };
       
       setEventData(eventWithPool);
     } catch (error) {
       console.error('Error fetching event data:', error);
-      toast.error("Error", {
-        description: "Failed to load event information. Please try again."
-      });
+      if (error instanceof QrPayloadError) {
+        toast.error("Invalid Claim Link", {
+          description: error.message
+        });
+      } else {
+        toast.error("Error", {
+          description: "Failed to load event information. Please try again."
+        });
+      }
       navigate('/claim');
     } finally {
       setIsVerifying(false);
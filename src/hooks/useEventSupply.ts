@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getEventSupply } from '@/utils/token';
+import { EventSupply } from '@/utils/supply';
+
+// Claims land every few seconds at a busy door, so keep the counter fresh
+const SUPPLY_REFRESH_MS = 15_000;
+
+/**
+ * Keeps an event's remaining supply up to date while it is on screen
+ */
+export const useEventSupply = (eventId: string | null | undefined) => {
+  const [supply, setSupply] = useState<EventSupply | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!eventId) {
+      setSupply(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setSupply(await getEventSupply(eventId));
+    } catch (error) {
+      console.error('Error loading event supply:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    refresh();
+    if (!eventId) return;
+
+    const timer = setInterval(refresh, SUPPLY_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [eventId, refresh]);
+
+  return { supply, isLoading, refresh };
+};
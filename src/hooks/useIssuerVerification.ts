@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { getTokenMetadata } from '@solana/spl-token';
+import { EventRecord } from '@/lib/db';
+import { TOKEN_2022_PROGRAM_ID } from '@/utils/token';
+import { verifyEventManifest, IssuerVerification } from '@/utils/eventManifest';
+
+/**
+ * Verifies an event's organizer-signed manifest against its creator and the
+ * update authority of its mint
+ */
+export const useIssuerVerification = (eventData: EventRecord | null) => {
+  const { connection } = useConnection();
+  const [isChecking, setIsChecking] = useState(false);
+  const [verification, setVerification] = useState<IssuerVerification | null>(null);
+
+  useEffect(() => {
+    if (!eventData) {
+      setVerification(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const verifyIssuer = async () => {
+      setIsChecking(true);
+      try {
+        let updateAuthority: string | null = null;
+        if (eventData.mintAddress) {
+          const metadata = await getTokenMetadata(
+            connection,
+            new PublicKey(eventData.mintAddress),
+            'confirmed',
+            TOKEN_2022_PROGRAM_ID
+          );
+          updateAuthority = metadata?.updateAuthority?.toBase58() || null;
+        }
+
+        if (!cancelled) {
+          setVerification(verifyEventManifest(eventData, updateAuthority));
+        }
+      } catch (error) {
+        console.error('Error verifying event issuer:', error);
+        if (!cancelled) {
+          setVerification({ verified: false, reason: 'The event token could not be checked on-chain.' });
+        }
+      } finally {
+        if (!cancelled) {
+          setIsChecking(false);
+        }
+      }
+    };
+
+    verifyIssuer();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventData, connection]);
+
+  return {
+    isChecking,
+    verification
+  };
+};
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { decodeClaimPayload, getClaimPath, QrPayloadError } from '@/utils/qrPayload';
 
 export const useQrScanner = () => {
   const navigate = useNavigate();
@@ -16,32 +18,20 @@ export const useQrScanner = () => {
       try {
         console.log('QR scan data received:', data.text);
         
-        // Try to parse as URL first
-        let eventId;
-        if (data.text.includes('/claim/')) {
-          const url = new URL(data.text);
-          eventId = url.pathname.split('/claim/')[1];
-        } else {
-          // Try to parse as JSON
-          try {
-            const jsonData = JSON.parse(data.text);
-            eventId = jsonData.eventId;
-          } catch {
-            // If not valid JSON, use as-is if it appears to be an event ID
-            eventId = data.text;
-          }
-        }
+        const payload = decodeClaimPayload(data.text);
         
-        if (eventId) {
-          console.log('Event ID extracted:', eventId);
-          stopScanning();
-          navigate(`/claim/${eventId}`);
-        } else {
-          setScanError('Invalid QR code format. Please scan a valid event QR code.');
-        }
+        console.log('Event ID extracted:', payload.eventId);
+        stopScanning();
+        navigate(getClaimPath(payload));
       } catch (error) {
         console.error('Error processing QR data:', error);
-        setScanError('Could not process QR code data.');
+        const message = error instanceof QrPayloadError
+          ? error.message
+          : 'Could not process QR code data.';
+        setScanError(message);
+        toast.error("Invalid QR Code", {
+          description: message
+        });
       }
     }
   };
@@ -67,8 +57,18 @@ export const useQrScanner = () => {
     e.preventDefault();
     if (!manualEventId.trim()) return;
     
-    navigate(`/claim/${manualEventId.trim()}`);
-    setManualEntryMode(false);
+    try {
+      // Manual entry accepts the same formats as a scanned QR code
+      const payload = decodeClaimPayload(manualEventId);
+      navigate(getClaimPath(payload));
+      setManualEntryMode(false);
+    } catch (error) {
+      const message = error instanceof QrPayloadError ? error.message : 'Could not read the claim code.';
+      setScanError(message);
+      toast.error("Invalid Claim Code", {
+        description: message
+      });
+    }
   };
 
   const toggleManualEntryMode = () => {
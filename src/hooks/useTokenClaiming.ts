@@ -4,14 +4,16 @@ import { useWallet } from '@solana/wallet-adapter-react';
 import { useConnection } from '@solana/wallet-adapter-react';
 import { toast } from 'sonner';
 import { verifyTokenClaim } from '@/utils/compressionApi';
-import { claimService } from '@/lib/db';
-import { claimCompressedToken } from '@/utils/token/compression/claimOperations';
+import { eventService } from '@/lib/db';
+import { isWalletAllowlisted } from '@/utils/allowlist';
+import { claimCompressedToken, ClaimOptions } from '@/utils/token/compression/claimOperations';
 
-export const useTokenClaiming = (eventId: string | undefined) => {
+export const useTokenClaiming = (eventId: string | undefined, claimOptions: ClaimOptions = {}) => {
   const { connection } = useConnection();
   const { connected, publicKey, signTransaction } = useWallet();
   const [isClaiming, setIsClaiming] = useState(false);
   const [hasClaimed, setHasClaimed] = useState<boolean | null>(null);
+  const [isAllowlisted, setIsAllowlisted] = useState<boolean | null>(null);
 
   // Effect to verify if the user has already claimed a token
   useEffect(() => {
@@ -33,6 +35,25 @@ export const useTokenClaiming = (eventId: string | undefined) => {
     checkTokenClaim();
   }, [connected, publicKey, eventId]);
 
+  // Effect to check the wallet against the event's allowlist
+  useEffect(() => {
+    const checkAllowlist = async () => {
+      if (connected && publicKey && eventId) {
+        try {
+          const event = await eventService.getEventById(eventId);
+          setIsAllowlisted(event ? isWalletAllowlisted(event, publicKey.toString()) : null);
+        } catch (error) {
+          console.error('Error checking allowlist:', error);
+          setIsAllowlisted(null);
+        }
+      } else {
+        setIsAllowlisted(null);
+      }
+    };
+
+    checkAllowlist();
+  }, [connected, publicKey, eventId]);
+
   // Handle wallet connection - use the main WalletButton instead of a separate modal
   const handleWalletClick = useCallback(() => {
     if (!connected) {
@@ -64,6 +85,13 @@ export const useTokenClaiming = (eventId: string | undefined) => {
       return;
     }
 
+    if (isAllowlisted === false) {
+      toast.error("Not on the List", {
+        description: "This event is restricted to registered wallets, and yours is not on the list."
+      });
+      return;
+    }
+
     setIsClaiming(true);
     try {
       console.log('Claiming token for event:', eventId, 'to wallet:', publicKey.toString());
@@ -73,7 +101,8 @@ export const useTokenClaiming = (eventId: string | undefined) => {
         eventId, 
         publicKey.toString(),
         connection,
-        signTransaction
+        signTransaction,
+        claimOptions
       );
       
       if (success) {
@@ -100,6 +129,7 @@ export const useTokenClaiming = (eventId: string | undefined) => {
     connected,
     isClaiming,
     hasClaimed,
+    isAllowlisted,
     handleClaimToken
   };
 };
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { toast } from 'sonner';
+import { PublicKey } from '@solana/web3.js';
+import { ClaimRecord, claimService, eventService, TokenTransactionRecord, tokenTransactionService } from '@/lib/db';
+import {
+  burnCompressedTokens,
+  decompress,
+  getWalletTokens,
+  sendCompressedTokens,
+  TransactionSigner,
+  WalletToken
+} from '@/utils/token';
+import { formatWalletAddress } from '@/utils/formatters';
+
+export interface ClaimAttempt extends ClaimRecord {
+  eventTitle: string;
+}
+
+export type WalletTokenAction = 'decompress' | 'send' | 'burn';
+
+/**
+ * Loads the connected wallet's compressed tokens from the indexer, plus this
+ * browser's pending or failed claims for events the wallet holds no token of
+ * and the token transactions it sent. Also runs the decompress, send and burn
+ * actions on held tokens.
+ */
+export const useWalletTokens = () => {
+  const { connection } = useConnection();
+  const { publicKey, signTransaction } = useWallet();
+  const [tokens, setTokens] = useState<WalletToken[]>([]);
+  const [attempts, setAttempts] = useState<ClaimAttempt[]>([]);
+  const [activity, setActivity] = useState<TokenTransactionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeAction, setActiveAction] = useState<{ mintAddress: string; action: WalletTokenAction } | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!publicKey) {
+      setTokens([]);
+      setAttempts([]);
+      setActivity([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [walletTokens, claims, transactions] = await Promise.all([
+        getWalletTokens(connection, publicKey),
+        claimService.getClaimsByWallet(publicKey.toBase58()),
+        tokenTransactionService.getTransactionsByWallet(publicKey.toBase58())
+      ]);
+
+      // A held token settles any earlier attempt at the same event
+      const heldEventIds = new Set(walletTokens.map(token => token.event?.id).filter(Boolean));
+      const unfinished = claims.filter(claim => claim.status !== 'confirmed' && !heldEventIds.has(claim.eventId));
+
+      const claimAttempts = await Promise.all(
+        unfinished.map(async (claim) => {
+          const event = await eventService.getEventById(claim.eventId);
+          return { ...claim, eventTitle: event?.title || 'Unknown Event' };
+        })
+      );
+
+      setTokens(walletTokens);
+      setAttempts(claimAttempts);
+      setActivity(transactions);
+    } catch (error) {
+      console.error('Error loading wallet tokens:', error);
+      toast.error("Error Loading Tokens", {
+        description: "Failed to load your tokens. Please try again later."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection, publicKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Runs one of the holder actions on a token, then reloads the balances so
+   * the gallery reflects it. The action itself reports its errors.
+   */
+  const runTokenAction = async (
+    token: WalletToken,
+    action: WalletTokenAction,
+    send: (owner: TransactionSigner, mint: PublicKey) => Promise<string>,
+    success: { title: string; description: string }
+  ) => {
+    if (!publicKey || !signTransaction) {
+      toast.error("Wallet not connected", {
+        description: "Please connect your wallet to manage your tokens."
+      });
+      return false;
+    }
+
+    setActiveAction({ mintAddress: token.mintAddress, action });
+    try {
+      await send({ publicKey, signTransaction }, new PublicKey(token.mintAddress));
+      toast.success(success.title, { description: success.description });
+      return true;
+    } catch (error) {
+      console.error(`Error running ${action} on token:`, error);
+      return false;
+    } finally {
+      setActiveAction(null);
+      refresh();
+    }
+  };
+
+  const decompressToken = (token: WalletToken) =>
+    runTokenAction(token, 'decompress', (owner, mint) => decompress(owner, mint, token.amount), {
+      title: "Tokens Decompressed",
+      description: `${token.event?.title || 'Your token'} is now in a regular Token-2022 account.`
+    });
+
+  const sendToken = (token: WalletToken, recipient: string) =>
+    runTokenAction(token, 'send', (owner, mint) => sendCompressedTokens(owner, mint, new PublicKey(recipient), token.amount), {
+      title: "Tokens Sent",
+      description: `${token.event?.title || 'Your token'} was sent to ${formatWalletAddress(recipient)}.`
+    });
+
+  const burnToken = (token: WalletToken) =>
+    runTokenAction(token, 'burn', (owner, mint) => burnCompressedTokens(owner, mint, token.amount), {
+      title: "Tokens Burned",
+      description: `${token.event?.title || 'Your token'} was burned.`
+    });
+
+  return { tokens, attempts, activity, isLoading, activeAction, refresh, decompressToken, sendToken, burnToken };
+};
@@ -0,0 +1,191 @@
+import type { Keypair } from '@solana/web3.js';
+import type { EventRecord, PoolRecord, ClaimRecord, ClaimCodeRecord } from './db';
+import {
+  createEventWriteSession,
+  signEventWrite,
+  EventWriteSession,
+  EVENT_WRITE_SESSION_SECONDS
+} from '../utils/eventWrites';
+
+/**
+ * Base URL of the shared claim service. When it is not configured the app
+ * falls back to the per-browser IndexedDB store.
+ */
+const CLAIM_SERVICE_URL: string | undefined = import.meta.env.VITE_CLAIM_SERVICE_URL;
+
+export const isClaimServiceEnabled = (): boolean => !!CLAIM_SERVICE_URL;
+
+export const getClaimServiceUrl = (): string | undefined => CLAIM_SERVICE_URL;
+
+/**
+ * Thrown when the claim service answered with an error status, as opposed to
+ * being unreachable. Callers only fall back to the offline cache for the latter.
+ */
+export class ClaimServiceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ClaimServiceError';
+    this.status = status;
+  }
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${CLAIM_SERVICE_URL!.replace(/\/$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers
+    }
+  });
+
+  if (response.status === 404 && (!init?.method || init.method === 'GET')) {
+    return null as T;
+  }
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = body && typeof body.error === 'string' ? body.error : response.statusText;
+    throw new ClaimServiceError(message, response.status);
+  }
+
+  return body as T;
+};
+
+export interface EventWriteSigner {
+  publicKey: string;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+// Wallet that signs event changes and claims, set while a wallet is connected
+let eventWriteSigner: EventWriteSigner | null = null;
+// Shared by concurrent requests so the wallet is only asked once per session
+let eventWriteSession: Promise<{ sessionKeypair: Keypair; session: EventWriteSession }> | null = null;
+let eventWriteSessionExpiresAt = 0;
+
+// Session keys are renewed a little before they expire so a request never races the expiry
+const SESSION_RENEW_MARGIN_SECONDS = 60;
+
+export const setEventWriteSigner = (signer: EventWriteSigner | null) => {
+  if (signer?.publicKey !== eventWriteSigner?.publicKey) {
+    eventWriteSession = null;
+  }
+  eventWriteSigner = signer;
+};
+
+const getEventWriteSession = (signer: EventWriteSigner) => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (eventWriteSession && eventWriteSessionExpiresAt - SESSION_RENEW_MARGIN_SECONDS > nowSeconds) {
+    return eventWriteSession;
+  }
+  if (!signer.signMessage) {
+    throw new ClaimServiceError('Your wallet must support message signing to make this change.', 401);
+  }
+
+  const session = createEventWriteSession(signer.publicKey, signer.signMessage);
+  eventWriteSession = session;
+  eventWriteSessionExpiresAt = nowSeconds + EVENT_WRITE_SESSION_SECONDS;
+  // A declined prompt shouldn't stick, the next change asks again
+  session.catch(() => {
+    if (eventWriteSession === session) {
+      eventWriteSession = null;
+    }
+  });
+  return session;
+};
+
+/**
+ * Sends a change to an event, its pool, its claim codes or a claim, signed for
+ * the connected wallet. The wallet is asked to authorize a session key the
+ * first time, later changes are signed with that key.
+ */
+const signedRequest = async <T>(path: string, method: string, body: unknown): Promise<T> => {
+  if (!eventWriteSigner) {
+    throw new ClaimServiceError('Connect your wallet to make this change.', 401);
+  }
+
+  const { sessionKeypair, session } = await getEventWriteSession(eventWriteSigner);
+  const encodedBody = JSON.stringify(body);
+  return request<T>(path, {
+    method,
+    body: encodedBody,
+    headers: { Authorization: signEventWrite(sessionKeypair, session, method, path, encodedBody) }
+  });
+};
+
+const query = (params: Record<string, string>) => `?${new URLSearchParams(params).toString()}`;
+
+export const claimServiceApi = {
+  getEvents: () => request<EventRecord[]>('/api/events'),
+
+  getEvent: (eventId: string) =>
+    request<EventRecord | null>(`/api/events/${encodeURIComponent(eventId)}`),
+
+  saveEvent: (eventData: EventRecord) =>
+    signedRequest<EventRecord>(`/api/events/${encodeURIComponent(eventData.id)}`, 'PUT', eventData),
+
+  updateEvent: (eventId: string, updateData: Partial<EventRecord>) =>
+    signedRequest<EventRecord>(`/api/events/${encodeURIComponent(eventId)}`, 'PATCH', updateData),
+
+  getPools: (params: { eventId?: string; mintAddress?: string }) =>
+    request<PoolRecord[]>(`/api/pools${query(params)}`),
+
+  savePool: (poolData: PoolRecord) =>
+    signedRequest<PoolRecord>('/api/pools', 'POST', poolData),
+
+  updatePool: (eventId: string, updateData: Partial<PoolRecord>) =>
+    signedRequest<PoolRecord>(`/api/pools/${encodeURIComponent(eventId)}`, 'PATCH', updateData),
+
+  getClaims: (params: { eventId?: string; walletAddress?: string }) =>
+    request<ClaimRecord[]>(`/api/claims${query(params)}`),
+
+  getClaim: (claimId: string) =>
+    request<ClaimRecord | null>(`/api/claims/${encodeURIComponent(claimId)}`),
+
+  /**
+   * Claims are signed by the claiming wallet, or by the organizer for airdrops
+   */
+  saveClaim: (claimData: ClaimRecord) =>
+    signedRequest<ClaimRecord>('/api/claims', 'POST', claimData),
+
+  updateClaim: (claimId: number, updateData: Partial<ClaimRecord>) =>
+    signedRequest<ClaimRecord>(`/api/claims/${claimId}`, 'PATCH', updateData),
+
+  createClaimAuthority: (eventId: string) =>
+    request<{ publicKey: string }>(`/api/events/${encodeURIComponent(eventId)}/claim-authority`, {
+      method: 'POST'
+    }),
+
+  getClaimCodes: (eventId: string) =>
+    request<ClaimCodeRecord[]>(`/api/events/${encodeURIComponent(eventId)}/claim-codes`),
+
+  saveClaimCodes: (eventId: string, codes: ClaimCodeRecord[]) =>
+    signedRequest<ClaimCodeRecord[]>(`/api/events/${encodeURIComponent(eventId)}/claim-codes`, 'POST', { codes }),
+
+  /**
+   * Redeems a claim code. The plain code is sent so the service hashes it
+   * itself rather than trusting a hash from the client.
+   */
+  redeemClaimCode: (eventId: string, code: string, walletAddress: string) =>
+    request<ClaimCodeRecord>(`/api/events/${encodeURIComponent(eventId)}/claim-codes/redeem`, {
+      method: 'POST',
+      body: JSON.stringify({ code, walletAddress })
+    }),
+
+  releaseClaimCode: (eventId: string, codeHash: string) =>
+    request<ClaimCodeRecord>(`/api/events/${encodeURIComponent(eventId)}/claim-codes/${codeHash}/release`, {
+      method: 'POST'
+    }),
+
+  /**
+   * Submits a claim transaction for the service's claim authority to co-sign.
+   * The transaction is base64 encoded and returned with the authority signature added.
+   */
+  submitClaim: (eventId: string, claimId: number, transaction: string) =>
+    request<{ transaction: string }>(`/api/events/${encodeURIComponent(eventId)}/claims/${claimId}/cosign`, {
+      method: 'POST',
+      body: JSON.stringify({ transaction })
+    })
+};
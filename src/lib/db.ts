@@ -1,4 +1,34 @@
 import Dexie, { Table } from 'dexie';
+import { PublicKey } from '@solana/web3.js';
+import { CompressedTokenProgram } from '@lightprotocol/compressed-token';
+import { claimServiceApi, isClaimServiceEnabled, ClaimServiceError } from './claimServiceClient';
+import { ClaimCodeError, hashClaimCode, isValidClaimCode } from '../utils/claimCodes';
+import type { FeeSponsorship } from '../utils/feeSponsorship';
+
+export interface RotatingQrConfig {
+  enabled: boolean;
+  intervalSeconds: number; // How often the QR code gets a fresh nonce
+  graceSeconds: number; // Extra time a nonce stays valid after it is replaced
+  sessionKey: string; // Public key that signs the nonces
+  delegationSignature: string; // Organizer's signature authorizing the session key
+}
+
+export interface RotationToken {
+  nonce: string;
+  issuedAt: number; // Unix time in seconds
+  signature: string; // Session key signature, base58
+}
+
+// Finished steps of the creation wizard, same values as its CreationStep
+export type EventSetupStep = 'token_created' | 'pool_created' | 'complete';
+
+// Creation wizard progress. The mint and its transaction are on the event itself.
+export interface EventSetupProgress {
+  step: EventSetupStep;
+  poolTransactionId?: string;
+  compressionTxId?: string; // Transaction that minted the compressed supply
+  updatedAt: string;
+}
 
 export interface EventRecord {
   id: string; // Changed from number to string to fix type errors
@@ -15,16 +45,25 @@ export interface EventRecord {
   transactionId: string | null;
   createdAt: string;
   creator: string; // Added missing creator field
+  claimAuthority?: string; // Public key of the keypair that owns the compressed supply
+  manifestSignature?: string; // Organizer's base58 signature over the event manifest
+  rotatingQr?: RotatingQrConfig;
+  requiresClaimCode?: boolean; // Claims must redeem one of the event's single-use codes
+  allowlist?: string[]; // Wallets allowed to claim, everyone can claim when empty
+  claimOpensAt?: string | null; // ISO timestamp, claims are rejected before it. Updates send null to clear it.
+  claimClosesAt?: string | null; // ISO timestamp, claims are rejected from then on. Updates send null to clear it.
+  feeSponsorship?: FeeSponsorship; // Claim authority pays attendees' fees up to a budget
+  setup?: EventSetupProgress; // Missing for events created before setup progress was saved
 }
 
 export interface PoolRecord {
   id?: number;
   eventId: string;
   mintAddress: string;
-  poolAddress: string;
-  merkleRoot?: string;
-  stateTreeAddress?: string; // This field was previously missing
-  transactionId: string;
+  poolAddress: string; // Token pool PDA derived from the mint
+  poolBalance?: number; // Raw units the pool held when it was last read from chain
+  stateTreeAddress?: string; // State tree the compressed supply was minted into
+  transactionId?: string; // Pool creation, missing when it is no longer in the RPC's history
   compressedAmount?: number;
   compressionTxId?: string;
   compressedAt?: string;
@@ -38,6 +77,51 @@ export interface ClaimRecord {
   status: 'pending' | 'confirmed' | 'failed';
   transactionId?: string;
   errorMessage?: string;
+  rotationToken?: RotationToken; // Rotating QR nonce the claim was made with
+  claimCodeHash?: string; // Single-use code the claim redeemed
+  source?: 'claim' | 'airdrop' | 'solana-pay' | 'action'; // Claimed in the app, airdropped by the organizer, or requested by a wallet through Solana Pay or an Action
+  lastValidBlockHeight?: number; // Expiry of the sent transaction, so unconfirmed airdrops can be retried safely
+  sponsoredFeeLamports?: number; // Fee paid by the event's claim authority instead of the attendee
+  createdAt: string;
+}
+
+export interface ClaimAuthorityRecord {
+  id?: number;
+  eventId: string;
+  publicKey: string;
+  secretKey: string; // base58 encoded
+  createdAt: string;
+}
+
+// Key that signs an event's rotating QR nonces. It stays on the device that
+// enabled rotation, so it is never sent to the claim service.
+export interface RotatingQrSessionRecord {
+  eventId: string;
+  sessionKey: string;
+  secretKey: string; // base58 encoded
+  createdAt: string;
+}
+
+export interface ClaimCodeRecord {
+  id?: number;
+  eventId: string;
+  codeHash: string; // SHA-256 of the code, the code itself is never stored
+  status: 'unused' | 'used';
+  claimedBy?: string; // Wallet that redeemed the code
+  usedAt?: string;
+  createdAt: string;
+}
+
+export interface TokenTransactionRecord {
+  id?: number;
+  type: 'decompress' | 'send' | 'burn';
+  walletAddress: string;
+  mintAddress: string;
+  amount: string; // Raw units as a decimal string, exact past Number.MAX_SAFE_INTEGER
+  destination?: string; // Token account or wallet that received the tokens, none for burns
+  status: 'pending' | 'confirmed' | 'failed';
+  transactionId?: string;
+  errorMessage?: string;
   createdAt: string;
 }
 
@@ -45,6 +129,10 @@ export class MyDatabase extends Dexie {
   events!: Table<EventRecord>;
   pools!: Table<PoolRecord>;
   claims!: Table<ClaimRecord>;
+  claimAuthorities!: Table<ClaimAuthorityRecord>;
+  claimCodes!: Table<ClaimCodeRecord>;
+  tokenTransactions!: Table<TokenTransactionRecord>;
+  rotatingQrSessions!: Table<RotatingQrSessionRecord>;
 
   constructor() {
     super('CompressionDemoDatabase');
@@ -53,21 +141,95 @@ export class MyDatabase extends Dexie {
       pools: '++id, eventId, mintAddress, poolAddress, merkleRoot, stateTreeAddress, transactionId, compressedAmount, compressionTxId, compressedAt, createdAt',
       claims: '++id, eventId, walletAddress, status, transactionId, errorMessage, createdAt',
     });
+    this.version(2).stores({
+      events: 'id, title, location, date, time, description, attendeeCount, symbol, decimals, imageUrl, mintAddress, transactionId, createdAt, creator, claimAuthority',
+      claimAuthorities: '++id, eventId, publicKey, createdAt',
+    });
+    this.version(3).stores({
+      claimCodes: '++id, eventId, codeHash, status, claimedBy, createdAt',
+    });
+    this.version(4).stores({
+      tokenTransactions: '++id, type, walletAddress, mintAddress, status, transactionId, createdAt',
+    });
+    this.version(5).stores({
+      pools: '++id, eventId, mintAddress, poolAddress, stateTreeAddress, transactionId, compressedAmount, compressionTxId, compressedAt, createdAt',
+    }).upgrade(tx => tx.table('pools').toCollection().modify(removePoolPlaceholders));
+    this.version(6).stores({
+      rotatingQrSessions: 'eventId, sessionKey, createdAt',
+    });
   }
 }
 
+// Pools used to be recorded with made-up values when their details weren't
+// known. The pool address follows from the mint, everything else is dropped.
+const POOL_PLACEHOLDER = /^(unknown|existing)-/;
+
+const removePoolPlaceholders = (pool: PoolRecord & { merkleRoot?: string }) => {
+  delete pool.merkleRoot;
+  if (POOL_PLACEHOLDER.test(pool.poolAddress)) {
+    pool.poolAddress = CompressedTokenProgram.deriveTokenPoolPda(new PublicKey(pool.mintAddress)).toBase58();
+  }
+  if (pool.stateTreeAddress && POOL_PLACEHOLDER.test(pool.stateTreeAddress)) {
+    delete pool.stateTreeAddress;
+  }
+  if (pool.transactionId && POOL_PLACEHOLDER.test(pool.transactionId)) {
+    delete pool.transactionId;
+  }
+};
+
 const getDatabase = async (): Promise<MyDatabase> => {
   const db = new MyDatabase();
   await db.open();
   return db;
 };
 
+/**
+ * Runs a request against the shared claim service when one is configured and
+ * mirrors the result into IndexedDB. If the service cannot be reached the
+ * local IndexedDB copy is used instead, so the app keeps working offline.
+ */
+const withClaimService = async <T>(
+  remote: () => Promise<T>,
+  cache: (db: MyDatabase, result: T) => Promise<unknown>,
+  local: (db: MyDatabase) => Promise<T>
+): Promise<T> => {
+  const db = await getDatabase();
+
+  if (!isClaimServiceEnabled()) {
+    return local(db);
+  }
+
+  let result: T;
+  try {
+    result = await remote();
+  } catch (error) {
+    if (error instanceof ClaimServiceError) {
+      throw error;
+    }
+    console.warn('Claim service unreachable, using offline cache:', error);
+    return local(db);
+  }
+
+  try {
+    await cache(db, result);
+  } catch (cacheError) {
+    console.warn('Error updating offline cache:', cacheError);
+  }
+  return result;
+};
+
 export const eventService = {
   saveEvent: async (eventData: EventRecord): Promise<string> => { // Changed return type to string
     try {
-      const db = await getDatabase();
-      await db.events.put(eventData); // Use put instead of add since we're providing the ID
-      return eventData.id;
+      const saved = await withClaimService(
+        () => claimServiceApi.saveEvent(eventData),
+        (db, event) => db.events.put(event),
+        async (db) => {
+          await db.events.put(eventData); // Use put instead of add since we're providing the ID
+          return eventData;
+        }
+      );
+      return saved.id;
     } catch (error) {
       console.error('Error saving event:', error);
       throw error;
@@ -76,8 +238,11 @@ export const eventService = {
 
   getEventById: async (eventId: string): Promise<EventRecord | null> => {
     try {
-      const db = await getDatabase();
-      const event = await db.events.where('id').equals(eventId).first();
+      const event = await withClaimService(
+        () => claimServiceApi.getEvent(eventId),
+        (db, event) => event ? db.events.put(event) : Promise.resolve(),
+        async (db) => (await db.events.where('id').equals(eventId).first()) || null
+      );
       return event || null;
     } catch (error) {
       console.error('Error getting event by ID:', error);
@@ -87,22 +252,46 @@ export const eventService = {
 
   getAllEvents: async (): Promise<EventRecord[]> => {
     try {
-      const db = await getDatabase();
-      const events = await db.events.toArray();
+      const events = await withClaimService(
+        () => claimServiceApi.getEvents(),
+        (db, events) => db.events.bulkPut(events),
+        (db) => db.events.toArray()
+      );
       return events;
     } catch (error) {
       console.error('Error getting all events:', error);
       return [];
     }
+  },
+
+  updateEvent: async (eventId: string, updateData: Partial<EventRecord>): Promise<boolean> => {
+    try {
+      // A cleared field is sent as null, since JSON drops undefined, and
+      // Dexie deletes fields that are updated to undefined
+      const localUpdate = Object.fromEntries(
+        Object.entries(updateData).map(([field, value]) => [field, value === null ? undefined : value])
+      ) as Partial<EventRecord>;
+      return await withClaimService(
+        async () => !!(await claimServiceApi.updateEvent(eventId, updateData)),
+        (db) => db.events.update(eventId, localUpdate),
+        async (db) => (await db.events.update(eventId, localUpdate)) > 0
+      );
+    } catch (error) {
+      console.error('Error updating event:', error);
+      return false;
+    }
   }
 };
 
 export const poolService = {
   savePool: async (poolData: PoolRecord): Promise<number> => {
     try {
-      const db = await getDatabase();
-      const id = await db.pools.add(poolData);
-      return id;
+      const saved = await withClaimService(
+        () => claimServiceApi.savePool(poolData),
+        (db, pool) => db.pools.put(pool),
+        async (db) => ({ ...poolData, id: await db.pools.add(poolData) })
+      );
+      return saved.id!;
     } catch (error) {
       console.error('Error saving pool:', error);
       throw error;
@@ -111,8 +300,11 @@ export const poolService = {
   
   getPoolByEventId: async (eventId: string): Promise<PoolRecord | null> => {
     try {
-      const db = await getDatabase();
-      const pool = await db.pools.where('eventId').equals(eventId).first();
+      const pool = await withClaimService<PoolRecord | null>(
+        async () => (await claimServiceApi.getPools({ eventId }))[0] || null,
+        (db, pool) => pool ? db.pools.put(pool) : Promise.resolve(),
+        async (db) => (await db.pools.where('eventId').equals(eventId).first()) || null
+      );
       return pool || null;
     } catch (error) {
       console.error('Error getting pool by event ID:', error);
@@ -122,8 +314,11 @@ export const poolService = {
   
   getPoolByMintAddress: async (mintAddress: string): Promise<PoolRecord | null> => {
     try {
-      const db = await getDatabase();
-      const pool = await db.pools.where('mintAddress').equals(mintAddress).first();
+      const pool = await withClaimService<PoolRecord | null>(
+        async () => (await claimServiceApi.getPools({ mintAddress }))[0] || null,
+        (db, pool) => pool ? db.pools.put(pool) : Promise.resolve(),
+        async (db) => (await db.pools.where('mintAddress').equals(mintAddress).first()) || null
+      );
       return pool || null;
     } catch (error) {
       console.error('Error getting pool by mint address:', error);
@@ -133,14 +328,21 @@ export const poolService = {
   
   updatePool: async (eventId: string, updateData: Partial<PoolRecord>): Promise<boolean> => {
     try {
-      const db = await getDatabase();
-      const existingPool = await db.pools.where('eventId').equals(eventId).first();
+      const updatePoolLocally = async (db: MyDatabase) => {
+        const existingPool = await db.pools.where('eventId').equals(eventId).first();
+        
+        if (existingPool) {
+          await db.pools.update(existingPool.id!, updateData);
+          return true;
+        }
+        return false;
+      };
       
-      if (existingPool) {
-        await db.pools.update(existingPool.id!, updateData);
-        return true;
-      }
-      return false;
+      return await withClaimService(
+        async () => !!(await claimServiceApi.updatePool(eventId, updateData)),
+        updatePoolLocally,
+        updatePoolLocally
+      );
     } catch (error) {
       console.error('Error updating pool:', error);
       return false;
@@ -151,9 +353,12 @@ export const poolService = {
 export const claimService = {
   saveClaim: async (claimData: ClaimRecord): Promise<number> => {
     try {
-      const db = await getDatabase();
-      const id = await db.claims.add(claimData);
-      return id;
+      const saved = await withClaimService(
+        () => claimServiceApi.saveClaim(claimData),
+        (db, claim) => db.claims.put(claim),
+        async (db) => ({ ...claimData, id: await db.claims.add(claimData) })
+      );
+      return saved.id!;
     } catch (error) {
       console.error('Error saving claim:', error);
       throw error;
@@ -162,8 +367,11 @@ export const claimService = {
 
   getClaimById: async (claimId: string): Promise<ClaimRecord | null> => {
     try {
-      const db = await getDatabase();
-      const claim = await db.claims.where('id').equals(parseInt(claimId)).first();
+      const claim = await withClaimService(
+        () => claimServiceApi.getClaim(claimId),
+        (db, claim) => claim ? db.claims.put(claim) : Promise.resolve(),
+        async (db) => (await db.claims.where('id').equals(parseInt(claimId)).first()) || null
+      );
       return claim || null;
     } catch (error) {
       console.error('Error getting claim by ID:', error);
@@ -173,8 +381,11 @@ export const claimService = {
 
   getClaimsByEventId: async (eventId: string): Promise<ClaimRecord[]> => {
     try {
-      const db = await getDatabase();
-      const claims = await db.claims.where('eventId').equals(eventId).toArray();
+      const claims = await withClaimService(
+        () => claimServiceApi.getClaims({ eventId }),
+        (db, claims) => db.claims.bulkPut(claims),
+        (db) => db.claims.where('eventId').equals(eventId).toArray()
+      );
       return claims;
     } catch (error) {
       console.error('Error getting claims by event ID:', error);
@@ -184,8 +395,11 @@ export const claimService = {
 
   getClaimsByWallet: async (walletAddress: string): Promise<ClaimRecord[]> => {
     try {
-      const db = await getDatabase();
-      const claims = await db.claims.where('walletAddress').equals(walletAddress).toArray();
+      const claims = await withClaimService(
+        () => claimServiceApi.getClaims({ walletAddress }),
+        (db, claims) => db.claims.bulkPut(claims),
+        (db) => db.claims.where('walletAddress').equals(walletAddress).toArray()
+      );
       return claims;
     } catch (error) {
       console.error('Error getting claims by wallet address:', error);
@@ -195,25 +409,238 @@ export const claimService = {
 
   hasWalletClaimedEvent: async (eventId: string, walletAddress: string): Promise<boolean> => {
     try {
-      const db = await getDatabase();
-      const claim = await db.claims
-        .where({ eventId, walletAddress })
-        .first();
-      return !!claim;
+      const claims = await withClaimService(
+        () => claimServiceApi.getClaims({ eventId, walletAddress }),
+        (db, claims) => db.claims.bulkPut(claims),
+        (db) => db.claims.where({ eventId, walletAddress }).toArray()
+      );
+      return claims.length > 0;
     } catch (error) {
       console.error('Error checking if wallet has claimed event:', error);
       return false;
     }
   },
 
+  updateClaim: async (claimId: number, updateData: Partial<ClaimRecord>): Promise<boolean> => {
+    try {
+      return await withClaimService(
+        async () => !!(await claimServiceApi.updateClaim(claimId, updateData)),
+        (db) => db.claims.update(claimId, updateData),
+        async (db) => (await db.claims.update(claimId, updateData)) > 0
+      );
+    } catch (error) {
+      console.error('Error updating claim:', error);
+      return false;
+    }
+  },
+
   updateClaimStatus: async (claimId: number, status: 'pending' | 'confirmed' | 'failed', transactionId?: string, errorMessage?: string): Promise<boolean> => {
     try {
-      const db = await getDatabase();
-      await db.claims.update(claimId, { status, transactionId, errorMessage });
-      return true;
+      const updateData = { status, transactionId, errorMessage };
+      return await withClaimService(
+        async () => !!(await claimServiceApi.updateClaim(claimId, updateData)),
+        (db) => db.claims.update(claimId, updateData),
+        async (db) => (await db.claims.update(claimId, updateData)) > 0
+      );
     } catch (error) {
       console.error('Error updating claim status:', error);
       return false;
     }
   }
 };
+
+export const claimAuthorityService = {
+  saveClaimAuthority: async (authorityData: ClaimAuthorityRecord): Promise<number> => {
+    try {
+      const db = await getDatabase();
+      const id = await db.claimAuthorities.add(authorityData);
+      return id;
+    } catch (error) {
+      console.error('Error saving claim authority:', error);
+      throw error;
+    }
+  },
+
+  getClaimAuthorityByEventId: async (eventId: string): Promise<ClaimAuthorityRecord | null> => {
+    try {
+      const db = await getDatabase();
+      const authority = await db.claimAuthorities.where('eventId').equals(eventId).first();
+      return authority || null;
+    } catch (error) {
+      console.error('Error getting claim authority by event ID:', error);
+      return null;
+    }
+  }
+};
+
+export const rotatingQrSessionService = {
+  saveSession: async (sessionData: RotatingQrSessionRecord): Promise<void> => {
+    try {
+      const db = await getDatabase();
+      await db.rotatingQrSessions.put(sessionData);
+    } catch (error) {
+      console.error('Error saving rotating QR session:', error);
+      throw error;
+    }
+  },
+
+  getSessionByEventId: async (eventId: string): Promise<RotatingQrSessionRecord | null> => {
+    try {
+      const db = await getDatabase();
+      return (await db.rotatingQrSessions.get(eventId)) || null;
+    } catch (error) {
+      console.error('Error getting rotating QR session by event ID:', error);
+      return null;
+    }
+  },
+
+  deleteSession: async (eventId: string): Promise<void> => {
+    try {
+      const db = await getDatabase();
+      await db.rotatingQrSessions.delete(eventId);
+    } catch (error) {
+      console.error('Error deleting rotating QR session:', error);
+    }
+  }
+};
+
+export const claimCodeService = {
+  saveClaimCodes: async (eventId: string, codeHashes: string[]): Promise<ClaimCodeRecord[]> => {
+    try {
+      const createdAt = new Date().toISOString();
+      const codeData: ClaimCodeRecord[] = codeHashes.map(codeHash => ({
+        eventId,
+        codeHash,
+        status: 'unused',
+        createdAt
+      }));
+      return await withClaimService(
+        () => claimServiceApi.saveClaimCodes(eventId, codeData),
+        (db, codes) => db.claimCodes.bulkPut(codes),
+        async (db) => {
+          const ids = await db.claimCodes.bulkAdd(codeData, { allKeys: true });
+          return codeData.map((code, index) => ({ ...code, id: ids[index] as number }));
+        }
+      );
+    } catch (error) {
+      console.error('Error saving claim codes:', error);
+      throw error;
+    }
+  },
+
+  getClaimCodesByEventId: async (eventId: string): Promise<ClaimCodeRecord[]> => {
+    try {
+      const codes = await withClaimService(
+        () => claimServiceApi.getClaimCodes(eventId),
+        (db, codes) => db.claimCodes.bulkPut(codes),
+        (db) => db.claimCodes.where('eventId').equals(eventId).toArray()
+      );
+      return codes;
+    } catch (error) {
+      console.error('Error getting claim codes by event ID:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Marks a code as used by a wallet. The lookup and the update happen in one
+   * transaction, so a code can only ever be redeemed once. Throws a
+   * ClaimCodeError if the code is unknown or already used.
+   */
+  redeemClaimCode: async (eventId: string, code: string, walletAddress: string): Promise<ClaimCodeRecord> => {
+    try {
+      if (!code) {
+        throw new ClaimCodeError('MISSING', 'This event requires a claim code. Please enter the code from your ticket.');
+      }
+      if (!isValidClaimCode(code)) {
+        throw new ClaimCodeError('INVALID_FORMAT', 'That does not look like a claim code. Please check it and try again.');
+      }
+
+      const codeHash = await hashClaimCode(eventId, code);
+
+      return await withClaimService(
+        () => claimServiceApi.redeemClaimCode(eventId, code, walletAddress),
+        (db, redeemed) => db.claimCodes.put(redeemed),
+        (db) => db.transaction('rw', db.claimCodes, async () => {
+          const existing = await db.claimCodes.where('codeHash').equals(codeHash).first();
+          if (!existing || existing.eventId !== eventId) {
+            throw new ClaimCodeError('NOT_FOUND', 'This claim code is not valid for this event.');
+          }
+          if (existing.status === 'used') {
+            throw new ClaimCodeError('ALREADY_USED', 'This claim code has already been used.');
+          }
+
+          const redeemed: ClaimCodeRecord = {
+            ...existing,
+            status: 'used',
+            claimedBy: walletAddress,
+            usedAt: new Date().toISOString()
+          };
+          await db.claimCodes.put(redeemed);
+          return redeemed;
+        })
+      );
+    } catch (error) {
+      console.error('Error redeeming claim code:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Makes a redeemed code usable again, e.g. when the claim transaction failed
+   */
+  releaseClaimCode: async (eventId: string, codeHash: string): Promise<boolean> => {
+    try {
+      const releaseLocally = async (db: MyDatabase) => {
+        const existing = await db.claimCodes.where('codeHash').equals(codeHash).first();
+        if (!existing || existing.eventId !== eventId) {
+          return false;
+        }
+        await db.claimCodes.update(existing.id!, { status: 'unused', claimedBy: undefined, usedAt: undefined });
+        return true;
+      };
+
+      return await withClaimService(
+        async () => !!(await claimServiceApi.releaseClaimCode(eventId, codeHash)),
+        releaseLocally,
+        releaseLocally
+      );
+    } catch (error) {
+      console.error('Error releasing claim code:', error);
+      return false;
+    }
+  }
+};
+
+export const tokenTransactionService = {
+  saveTransaction: async (transactionData: TokenTransactionRecord): Promise<number> => {
+    try {
+      const db = await getDatabase();
+      const id = await db.tokenTransactions.add(transactionData);
+      return id;
+    } catch (error) {
+      console.error('Error saving token transaction:', error);
+      throw error;
+    }
+  },
+
+  getTransactionsByWallet: async (walletAddress: string): Promise<TokenTransactionRecord[]> => {
+    try {
+      const db = await getDatabase();
+      return await db.tokenTransactions.where('walletAddress').equals(walletAddress).reverse().sortBy('createdAt');
+    } catch (error) {
+      console.error('Error getting token transactions by wallet address:', error);
+      return [];
+    }
+  },
+
+  updateTransaction: async (transactionId: number, updateData: Partial<TokenTransactionRecord>): Promise<boolean> => {
+    try {
+      const db = await getDatabase();
+      return (await db.tokenTransactions.update(transactionId, updateData)) > 0;
+    } catch (error) {
+      console.error('Error updating token transaction:', error);
+      return false;
+    }
+  }
+};
@@ -1,70 +1,28 @@
 
-import React, { useState, useEffect } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Loader2 } from 'lucide-react';
-import { toast } from 'sonner';
-import { getWalletClaimHistory, getEventDetails } from '@/utils/eventServices';
+import { Loader2, RefreshCw } from 'lucide-react';
+import WalletTokenCard from '@/components/token/WalletTokenCard';
+import TokenActivityCard from '@/components/token/TokenActivityCard';
+import { useWalletTokens } from '@/hooks/useWalletTokens';
 import { formatDate, formatTransactionId } from '@/utils/formatters';
 
-interface ClaimRecord {
-  id: number;
-  eventId: string;
-  walletAddress: string;
-  transactionId?: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  createdAt: string;
-  error?: string;
-}
-
-interface EnrichedClaimRecord extends ClaimRecord {
-  eventTitle?: string;
-}
-
 const ClaimDashboardPage = () => {
   const { connected, publicKey } = useWallet();
-  const [isLoading, setIsLoading] = useState(true);
-  const [claims, setClaims] = useState<EnrichedClaimRecord[]>([]);
-
-  useEffect(() => {
-    async function loadClaims() {
-      if (!connected || !publicKey) {
-        setClaims([]);
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      try {
-        // Get claims for this wallet
-        const walletClaims = await getWalletClaimHistory(publicKey.toString());
-        
-        // Enrich with event details
-        const enrichedClaims = await Promise.all(
-          walletClaims.map(async (claim) => {
-            const eventDetails = await getEventDetails(claim.eventId);
-            return {
-              ...claim,
-              eventTitle: eventDetails?.title || 'Unknown Event'
-            };
-          })
-        );
-        
-        setClaims(enrichedClaims);
-      } catch (error) {
-        console.error('Error loading claims:', error);
-        toast.error("Error Loading Claims", {
-          description: "Failed to load your claim history. Please try again later."
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    }
-
-    loadClaims();
-  }, [connected, publicKey]);
+  const {
+    tokens,
+    attempts,
+    activity,
+    isLoading,
+    activeAction,
+    refresh,
+    decompressToken,
+    sendToken,
+    burnToken
+  } = useWalletTokens();
 
   if (!connected) {
     return (
@@ -86,28 +44,53 @@ const ClaimDashboardPage = () => {
 
   return (
     <div className="max-w-4xl mx-auto py-8">
-      <h1 className="text-3xl font-bold mb-2">Your Claimed Tokens</h1>
-      <p className="text-muted-foreground mb-8">
-        View all the compressed tokens you've claimed from events
-      </p>
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Your Claimed Tokens</h1>
+          <p className="text-muted-foreground">
+            Every compressed event token this wallet holds, wherever you claimed it
+          </p>
+        </div>
+        <Button variant="outline" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Claim History</CardTitle>
-          <CardDescription>
-            All tokens you've claimed with this wallet
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="flex justify-center py-8">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            </div>
-          ) : claims.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-muted-foreground">You haven't claimed any tokens yet.</p>
-            </div>
-          ) : (
+      {isLoading && tokens.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">This wallet doesn't hold any event tokens yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2">
+          {tokens.map((token) => (
+            <WalletTokenCard
+              key={token.mintAddress}
+              token={token}
+              ownerAddress={publicKey?.toBase58()}
+              activeAction={activeAction?.mintAddress === token.mintAddress ? activeAction.action : null}
+              onDecompress={decompressToken}
+              onSend={sendToken}
+              onBurn={burnToken}
+            />
+          ))}
+        </div>
+      )}
+
+      {attempts.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Unfinished Claims</CardTitle>
+            <CardDescription>
+              Claims made from this browser that haven't delivered a token yet
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
@@ -119,14 +102,13 @@ const ClaimDashboardPage = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {claims.map((claim) => (
+                  {attempts.map((claim) => (
                     <TableRow key={claim.id}>
                       <TableCell className="font-medium">{claim.eventTitle}</TableCell>
                       <TableCell>{formatDate(claim.createdAt)}</TableCell>
                       <TableCell>
                         <Badge 
                           className={
-                            claim.status === 'confirmed' ? 'bg-green-100 text-green-800' : 
                             claim.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 
                             'bg-red-100 text-red-800'
                           }
@@ -153,9 +135,15 @@ const ClaimDashboardPage = () => {
                 </TableBody>
               </Table>
             </div>
-          )}
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
+
+      {activity.length > 0 && (
+        <div className="mt-8">
+          <TokenActivityCard activity={activity} />
+        </div>
+      )}
     </div>
   );
 };
@@ -19,8 +19,11 @@ const ClaimPage = () => {
     isVerifying,
     eventData,
     hasClaimed,
+    isAllowlisted,
     manualEntryMode,
     manualEventId,
+    claimCode,
+    setClaimCode,
     handleScan,
     handleError,
     handleClaimToken,
@@ -62,7 +65,10 @@ const ClaimPage = () => {
           isVerifying={isVerifying}
           isClaiming={isClaiming}
           hasClaimed={hasClaimed}
+          isAllowlisted={isAllowlisted}
           walletConnected={connected}
+          claimCode={claimCode}
+          onClaimCodeChange={setClaimCode}
           onClaimToken={handleClaimToken}
         />
       )}
@@ -8,6 +8,7 @@ import { ProgressIndicator } from '@/components/events/ProgressIndicator';
 import { TokenCreatedCard } from '@/components/events/TokenCreatedCard';
 import { PoolCreatedCard } from '@/components/events/PoolCreatedCard';
 import { SetupCompleteCard } from '@/components/events/SetupCompleteCard';
+import ResumeSetupCard from '@/components/events/ResumeSetupCard';
 
 const CreateEventPage = () => {
   const { connected, publicKey } = useWallet();
@@ -24,7 +25,11 @@ const CreateEventPage = () => {
     handleCreateEvent,
     handleCreateTokenPool,
     handleGenerateQR,
-    downloadQRCode 
+    downloadQRCode,
+    rotatingQR,
+    incompleteEvents,
+    resumingEventId,
+    resumeSetup
   } = useCreateEvent(publicKey?.toString() || null);
 
   // Wrapper function to handle Promise<boolean> to Promise<void> conversion
@@ -50,7 +55,17 @@ const CreateEventPage = () => {
       <ProgressIndicator step={step} />
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-        <div className="col-span-1 md:col-span-2">
+        <div className="col-span-1 md:col-span-2 space-y-8">
+          {/* Resume an interrupted setup */}
+          {step === CreationStep.INITIAL && incompleteEvents.length > 0 && (
+            <ResumeSetupCard
+              events={incompleteEvents}
+              resumingEventId={resumingEventId}
+              disabled={isLoading}
+              onResume={resumeSetup}
+            />
+          )}
+          
           {/* Step 1: Create Token */}
           {(step === CreationStep.INITIAL || step === CreationStep.CREATING_TOKEN) && (
             <CreateEventForm 
@@ -99,6 +114,7 @@ const CreateEventPage = () => {
             transactionId={transactionId}
             onDownload={downloadQRCode}
             step={step}
+            rotation={rotatingQR}
           />
         </div>
       </div>
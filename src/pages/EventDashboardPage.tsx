@@ -9,6 +9,31 @@ import { toast } from 'sonner';
 import { getAllEvents, getEventDetails, getEventClaimHistory } from '@/utils/eventServices';
 import { EventRecord } from '@/lib/db';
 import { formatDate } from '@/utils/formatters';
+import { getClaimServiceUrl } from '@/lib/claimServiceClient';
+import { getBlinkUrl } from '@/utils/solanaActions';
+import { EventHealth } from '@/utils/token';
+import ClaimCodesCard from '@/components/events/ClaimCodesCard';
+import AllowlistCard from '@/components/events/AllowlistCard';
+import AirdropCard from '@/components/events/AirdropCard';
+import ClaimWindowCard from '@/components/events/ClaimWindowCard';
+import SupplyCard from '@/components/events/SupplyCard';
+import FeeSponsorshipCard from '@/components/events/FeeSponsorshipCard';
+import EventHealthCard from '@/components/events/EventHealthCard';
+import { useEventHealth } from '@/hooks/event/useEventHealth';
+
+// Healthy, or how many setup steps are missing on chain
+const HealthBadge = ({ health }: { health: EventHealth | undefined }) => {
+  if (!health) {
+    return <Badge variant="outline">Checking...</Badge>;
+  }
+  
+  const failed = Object.values(health).filter(passed => !passed).length;
+  return failed === 0 ? (
+    <Badge className="bg-green-100 text-green-800">Healthy</Badge>
+  ) : (
+    <Badge className="bg-red-100 text-red-800">{failed} {failed === 1 ? 'issue' : 'issues'}</Badge>
+  );
+};
 
 const EventDashboardPage = () => {
   const { connected, publicKey } = useWallet();
@@ -68,6 +93,23 @@ const EventDashboardPage = () => {
     }
   };
 
+  // A repaired mint changes the event's mint address, so keep the list current
+  const replaceEvent = (repaired: EventRecord) => {
+    setEvents(current => current.map(event => event.id === repaired.id ? repaired : event));
+  };
+  const { health, checkingEventIds, repairing, checkEvent, repair } = useEventHealth(events, replaceEvent);
+
+  const selectedEvent = events.find(event => event.id === selectedEventId) || null;
+  const claimServiceUrl = getClaimServiceUrl();
+
+  const copyBlink = (eventId: string) => {
+    navigator.clipboard.writeText(getBlinkUrl(claimServiceUrl!, eventId)).then(() => {
+      toast.success("Blink link copied", {
+        description: "Share it on X or Discord to let attendees claim from the post."
+      });
+    });
+  };
+
   if (!connected) {
     return (
       <div className="max-w-4xl mx-auto py-8">
@@ -120,6 +162,7 @@ const EventDashboardPage = () => {
                     <TableHead>Event Name</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Mint Address</TableHead>
+                    <TableHead>Health</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -132,6 +175,9 @@ const EventDashboardPage = () => {
                         {event.mintAddress?.slice(0, 6)}...{event.mintAddress?.slice(-4)}
                       </TableCell>
                       <TableCell>
+                        <HealthBadge health={health[event.id]} />
+                      </TableCell>
+                      <TableCell className="space-x-2 whitespace-nowrap">
                         <Button 
                           variant="outline" 
                           size="sm"
@@ -139,6 +185,15 @@ const EventDashboardPage = () => {
                         >
                           View Claims
                         </Button>
+                        {claimServiceUrl && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => copyBlink(event.id)}
+                          >
+                            Copy Blink
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -149,6 +204,26 @@ const EventDashboardPage = () => {
         </CardContent>
       </Card>
 
+      {selectedEvent && (
+        <>
+          <EventHealthCard
+            key={`health-${selectedEvent.id}`}
+            event={selectedEvent}
+            health={health[selectedEvent.id]}
+            isChecking={checkingEventIds.includes(selectedEvent.id)}
+            repairingStep={repairing?.eventId === selectedEvent.id ? repairing.step : null}
+            onRefresh={() => checkEvent(selectedEvent)}
+            onRepair={(step) => repair(selectedEvent, step)}
+          />
+          <SupplyCard key={`supply-${selectedEvent.id}`} event={selectedEvent} />
+          <ClaimWindowCard key={`window-${selectedEvent.id}`} event={selectedEvent} />
+          <AllowlistCard key={`allowlist-${selectedEvent.id}`} event={selectedEvent} />
+          <ClaimCodesCard key={`codes-${selectedEvent.id}`} event={selectedEvent} />
+          <AirdropCard key={`airdrop-${selectedEvent.id}`} event={selectedEvent} />
+          <FeeSponsorshipCard key={`fees-${selectedEvent.id}`} event={selectedEvent} />
+        </>
+      )}
+
       {selectedEventId && (
         <Card>
           <CardHeader>
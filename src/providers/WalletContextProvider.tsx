@@ -1,6 +1,6 @@
 
-import { FC, ReactNode, useMemo } from 'react';
-import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { FC, ReactNode, useEffect, useMemo } from 'react';
+import { ConnectionProvider, WalletProvider, useWallet } from '@solana/wallet-adapter-react';
 import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { 
   PhantomWalletAdapter, 
@@ -8,6 +8,7 @@ import {
   CoinbaseWalletAdapter 
 } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
+import { setEventWriteSigner } from '@/lib/claimServiceClient';
 
 // Import wallet adapter styles
 import '@solana/wallet-adapter-react-ui/styles.css';
@@ -16,6 +17,17 @@ interface WalletContextProviderProps {
   children: ReactNode;
 }
 
+// Lets the claim service client sign event changes with the connected wallet
+const EventWriteSignerBridge: FC = () => {
+  const { publicKey, signMessage } = useWallet();
+
+  useEffect(() => {
+    setEventWriteSigner(publicKey ? { publicKey: publicKey.toBase58(), signMessage } : null);
+  }, [publicKey, signMessage]);
+
+  return null;
+};
+
 export const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) => {
   // The network can be set to 'devnet', 'testnet', or 'mainnet-beta'
   const network = WalletAdapterNetwork.Devnet;
@@ -45,6 +57,7 @@ export const WalletContextProvider: FC<WalletContextProviderProps> = ({ children
   return (
     <ConnectionProvider endpoint={endpoint} config={{commitment: 'confirmed'}}>
       <WalletProvider wallets={wallets} autoConnect={true}>
+        <EventWriteSignerBridge />
         <WalletModalProvider>{children}</WalletModalProvider>
       </WalletProvider>
     </ConnectionProvider>
@@ -0,0 +1,133 @@
+import { PublicKey } from '@solana/web3.js';
+import type { EventRecord, ClaimRecord } from '../lib/db';
+
+/**
+ * Event allowlists.
+ *
+ * Private events can restrict claims to a list of registered wallets, imported
+ * from a CSV or JSON file. CSV files may have a header row and any number of
+ * columns; the first cell in each row that is a Solana address is used. JSON
+ * files may hold an array of addresses, an array of objects with a `wallet`,
+ * `walletAddress` or `address` field, or an object with a `wallets` array.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export interface AllowlistImport {
+  wallets: string[];
+  invalidEntries: string[]; // Rows or values that did not contain a wallet
+  duplicates: number;
+}
+
+export interface AllowlistCoverage {
+  listed: number;
+  claimed: number;
+  outstanding: string[]; // Listed wallets without a confirmed claim
+}
+
+export const isWalletAddress = (value: string): boolean => {
+  // Base58 addresses are 32 to 44 characters; PublicKey alone also accepts shorter strings
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) {
+    return false;
+  }
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const WALLET_FIELDS = ['wallet', 'walletAddress', 'address'];
+
+const collectJsonEntries = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'object' && value !== null && Array.isArray((value as { wallets?: unknown }).wallets)) {
+    return (value as { wallets: unknown[] }).wallets;
+  }
+  throw new Error('JSON allowlists must be an array of wallets or an object with a "wallets" array');
+};
+
+const jsonEntryToText = (entry: unknown): string => {
+  if (typeof entry === 'string') {
+    return entry.trim();
+  }
+  if (typeof entry === 'object' && entry !== null) {
+    const record = entry as Record<string, unknown>;
+    const field = WALLET_FIELDS.find(key => typeof record[key] === 'string');
+    return field ? (record[field] as string).trim() : JSON.stringify(entry);
+  }
+  return String(entry);
+};
+
+const parseCsvRow = (row: string): string[] =>
+  row.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+/**
+ * Parses an uploaded allowlist. The format is picked from the file name and
+ * falls back to sniffing the content.
+ */
+export const parseAllowlist = (content: string, fileName = ''): AllowlistImport => {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.startsWith('[') || text.startsWith('{');
+
+  const candidates: { raw: string; wallet: string | null }[] = [];
+
+  if (isJson) {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error('Allowlist file is not valid JSON');
+    }
+    for (const entry of collectJsonEntries(value)) {
+      const raw = jsonEntryToText(entry);
+      candidates.push({ raw, wallet: isWalletAddress(raw) ? raw : null });
+    }
+  } else {
+    text.split(/\r?\n/).forEach((row, index) => {
+      if (!row.trim()) return;
+      const wallet = parseCsvRow(row).find(isWalletAddress) || null;
+      // A first row without an address is taken to be the header
+      if (!wallet && index === 0) return;
+      candidates.push({ raw: row.trim(), wallet });
+    });
+  }
+
+  const wallets = new Set<string>();
+  const invalidEntries: string[] = [];
+  let duplicates = 0;
+
+  for (const { raw, wallet } of candidates) {
+    if (!wallet) {
+      invalidEntries.push(raw);
+    } else if (wallets.has(wallet)) {
+      duplicates++;
+    } else {
+      wallets.add(wallet);
+    }
+  }
+
+  return { wallets: [...wallets], invalidEntries, duplicates };
+};
+
+/**
+ * Events without an allowlist are open to every wallet
+ */
+export const isWalletAllowlisted = (event: Pick<EventRecord, 'allowlist'>, walletAddress: string): boolean =>
+  !event.allowlist || event.allowlist.length === 0 || event.allowlist.includes(walletAddress);
+
+export const getAllowlistCoverage = (allowlist: string[], claims: ClaimRecord[]): AllowlistCoverage => {
+  const claimedWallets = new Set(
+    claims.filter(claim => claim.status === 'confirmed').map(claim => claim.walletAddress)
+  );
+  const outstanding = allowlist.filter(wallet => !claimedWallets.has(wallet));
+
+  return {
+    listed: allowlist.length,
+    claimed: allowlist.length - outstanding.length,
+    outstanding
+  };
+};
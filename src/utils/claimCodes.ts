@@ -0,0 +1,86 @@
+/**
+ * Single-use claim codes.
+ *
+ * Organizers can hand out printed codes instead of (or on top of) the event QR
+ * code. Each code can be redeemed for exactly one token. Codes use Crockford's
+ * base32 alphabet so they can be typed in by hand, and only their SHA-256
+ * hashes are stored, so a leaked database doesn't leak unused codes.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+// Crockford base32 without I, L, O and U
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+const CODE_GROUP_SIZE = 4;
+
+export const MAX_CLAIM_CODES_PER_BATCH = 1000;
+
+export type ClaimCodeErrorCode =
+  | 'MISSING'
+  | 'INVALID_FORMAT'
+  | 'NOT_FOUND'
+  | 'ALREADY_USED';
+
+export class ClaimCodeError extends Error {
+  code: ClaimCodeErrorCode;
+
+  constructor(code: ClaimCodeErrorCode, message: string) {
+    super(message);
+    this.name = 'ClaimCodeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Uppercases a code, drops separators and maps look-alike characters the way
+ * Crockford base32 does, so "abcd-efgh-1jkl" and "ABCDEFGH1JK1" are the same code.
+ */
+export const normalizeClaimCode = (code: string): string =>
+  code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const isValidClaimCode = (code: string): boolean => {
+  const normalized = normalizeClaimCode(code);
+  return normalized.length === CODE_LENGTH && [...normalized].every(char => CODE_ALPHABET.includes(char));
+};
+
+/**
+ * Formats a code in groups of four for printing
+ */
+export const formatClaimCode = (code: string): string =>
+  normalizeClaimCode(code).match(new RegExp(`.{1,${CODE_GROUP_SIZE}}`, 'g'))?.join('-') || '';
+
+const generateClaimCode = (): string => {
+  // 256 is a multiple of 32, so taking the low five bits keeps every character equally likely
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return formatClaimCode(Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join(''));
+};
+
+/**
+ * Generates `count` distinct claim codes
+ */
+export const generateClaimCodes = (count: number): string[] => {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_CLAIM_CODES_PER_BATCH) {
+    throw new Error(`Claim code batches must contain between 1 and ${MAX_CLAIM_CODES_PER_BATCH} codes`);
+  }
+
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(generateClaimCode());
+  }
+  return [...codes];
+};
+
+/**
+ * Hashes a code for storage. The event ID is mixed in so the same code in two
+ * events doesn't produce the same hash.
+ */
+export const hashClaimCode = async (eventId: string, code: string): Promise<string> => {
+  const message = new TextEncoder().encode(`cpop-claim-code:${eventId}:${normalizeClaimCode(code)}`);
+  const digest = await crypto.subtle.digest('SHA-256', message);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,103 @@
+import type { EventRecord } from '../lib/db';
+
+/**
+ * Claim windows.
+ *
+ * Every event carries the time claims open and close. Events created before
+ * claim windows existed have neither and stay open. A window is resolved when
+ * the event is created: it opens at the event's start and closes
+ * DEFAULT_CLAIM_WINDOW_HOURS later unless the organizer picks other times.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const DEFAULT_CLAIM_WINDOW_HOURS = 24;
+
+export type ClaimWindowStatus = 'upcoming' | 'open' | 'closed';
+
+export interface ClaimWindowState {
+  status: ClaimWindowStatus;
+  opensAt: number | null; // Unix time in milliseconds
+  closesAt: number | null;
+  secondsUntilOpen: number;
+  secondsUntilClose: number | null;
+}
+
+export type ClaimWindowErrorCode = 'NOT_OPEN' | 'CLOSED';
+
+export class ClaimWindowError extends Error {
+  code: ClaimWindowErrorCode;
+
+  constructor(code: ClaimWindowErrorCode, message: string) {
+    super(message);
+    this.name = 'ClaimWindowError';
+    this.code = code;
+  }
+}
+
+const parseTimestamp = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+export const getClaimWindowState = (
+  event: Pick<EventRecord, 'claimOpensAt' | 'claimClosesAt'>,
+  now: number = Date.now()
+): ClaimWindowState => {
+  const opensAt = parseTimestamp(event.claimOpensAt);
+  const closesAt = parseTimestamp(event.claimClosesAt);
+
+  const status: ClaimWindowStatus =
+    opensAt !== null && now < opensAt ? 'upcoming' :
+    closesAt !== null && now >= closesAt ? 'closed' :
+    'open';
+
+  return {
+    status,
+    opensAt,
+    closesAt,
+    secondsUntilOpen: opensAt !== null ? Math.max(0, Math.ceil((opensAt - now) / 1000)) : 0,
+    secondsUntilClose: closesAt !== null ? Math.max(0, Math.ceil((closesAt - now) / 1000)) : null
+  };
+};
+
+/**
+ * Throws a ClaimWindowError unless claims are currently accepted
+ */
+export const assertClaimWindowOpen = (
+  event: Pick<EventRecord, 'claimOpensAt' | 'claimClosesAt'>,
+  now: number = Date.now()
+): void => {
+  const { status, opensAt } = getClaimWindowState(event, now);
+
+  if (status === 'upcoming') {
+    throw new ClaimWindowError('NOT_OPEN', `Claims for this event open on ${new Date(opensAt!).toLocaleString()}.`);
+  }
+  if (status === 'closed') {
+    throw new ClaimWindowError('CLOSED', 'Claims for this event have closed.');
+  }
+};
+
+/**
+ * Works out the window for a new event. `opensAt` and `closesAt` are any
+ * string `Date` accepts (e.g. a datetime-local value); empty values fall back
+ * to the event start and DEFAULT_CLAIM_WINDOW_HOURS after it.
+ */
+export const resolveClaimWindow = (
+  details: { date: string; time: string; claimOpensAt?: string; claimClosesAt?: string }
+): { claimOpensAt?: string; claimClosesAt?: string } => {
+  const eventStart = parseTimestamp(details.date ? `${details.date}T${details.time || '00:00'}` : undefined);
+  const opensAt = parseTimestamp(details.claimOpensAt) ?? eventStart;
+  const closesAt = parseTimestamp(details.claimClosesAt) ??
+    (opensAt !== null ? opensAt + DEFAULT_CLAIM_WINDOW_HOURS * 60 * 60 * 1000 : null);
+
+  if (opensAt !== null && closesAt !== null && closesAt <= opensAt) {
+    throw new Error('Claims must close after they open');
+  }
+
+  return {
+    claimOpensAt: opensAt !== null ? new Date(opensAt).toISOString() : undefined,
+    claimClosesAt: closesAt !== null ? new Date(closesAt).toISOString() : undefined
+  };
+};
@@ -11,7 +11,7 @@ import { createRpc } from '@lightprotocol/stateless.js';
 import { toast } from 'sonner';
 
 // Use Helius RPC endpoints for Light Protocol support
-const NETWORK = 'devnet';
+export const NETWORK = 'devnet';
 const HELIUS_API_KEY = '9aeaaaaa-ac88-42a4-8f49-7b0c23cee762'; // Devnet test key
 const RPC_URL = `https://${NETWORK}.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
 
@@ -0,0 +1,143 @@
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { EventRecord } from '@/lib/db';
+import { buildEventTokenMetadata } from './token/factory/tokenFactory';
+
+/**
+ * Event manifests let attendees check who issued an event before claiming.
+ *
+ * The organizer signs a canonical description of the event with their wallet
+ * when it is created. The claim page accepts the issuer as verified only when
+ * that signature is valid for `EventRecord.creator` and the creator is also the
+ * update authority of the event's mint.
+ *
+ * Version 2 manifests hold the event details as the mint's metadata holds
+ * them, e.g. with a long description cut short, so an event rebuilt from its
+ * mint on another device has the same manifest as the saved event. Version 1
+ * manifests took the saved details as they were and are still accepted.
+ */
+
+export const EVENT_MANIFEST_VERSION = 2;
+const LEGACY_MANIFEST_VERSION = 1;
+
+export interface EventManifest {
+  v: number;
+  eventId: string;
+  mintAddress: string;
+  creator: string;
+  title: string;
+  date: string;
+  time: string;
+  location: string;
+  description: string;
+  attendeeCount: number;
+  symbol: string;
+  decimals: number;
+}
+
+// What a manifest is built from, known as soon as the mint keypair is generated
+export type ManifestEvent = Pick<
+  EventRecord,
+  'id' | 'mintAddress' | 'creator' | 'title' | 'date' | 'time' | 'location' |
+  'description' | 'attendeeCount' | 'symbol' | 'decimals' | 'imageUrl'
+>;
+
+export interface IssuerVerification {
+  verified: boolean;
+  reason: string;
+}
+
+// The event details as they are written to the mint
+const getOnChainDetails = (event: ManifestEvent) => {
+  const metadata = buildEventTokenMetadata(PublicKey.default, event, event.id);
+  const fields = Object.fromEntries(metadata.additionalMetadata);
+  return {
+    title: metadata.name,
+    symbol: metadata.symbol,
+    location: fields.location,
+    description: fields.description
+  };
+};
+
+export const buildEventManifest = (event: ManifestEvent, version: number = EVENT_MANIFEST_VERSION): EventManifest => {
+  const details = version === LEGACY_MANIFEST_VERSION ? event : getOnChainDetails(event);
+  return {
+    v: version,
+    eventId: event.id,
+    mintAddress: event.mintAddress || '',
+    creator: event.creator,
+    title: details.title,
+    date: event.date,
+    time: event.time,
+    location: details.location,
+    description: details.description || '',
+    attendeeCount: event.attendeeCount,
+    symbol: details.symbol,
+    decimals: event.decimals
+  };
+};
+
+/**
+ * Serializes the manifest with a fixed key order so the signed bytes only
+ * depend on the event details, never on how the record was stored.
+ */
+export const getManifestMessage = (manifest: EventManifest): Uint8Array => {
+  const orderedKeys: (keyof EventManifest)[] = [
+    'v', 'eventId', 'mintAddress', 'creator', 'title', 'date', 'time',
+    'location', 'description', 'attendeeCount', 'symbol', 'decimals'
+  ];
+  const canonical = JSON.stringify(orderedKeys.map(key => [key, manifest[key]]));
+  return new TextEncoder().encode(`cpop-event-manifest:${canonical}`);
+};
+
+/**
+ * Asks the organizer's wallet to sign the event manifest, returning a base58 signature
+ */
+export const signEventManifest = async (
+  event: ManifestEvent,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<string> => {
+  const signature = await signMessage(getManifestMessage(buildEventManifest(event)));
+  return bs58.encode(signature);
+};
+
+/**
+ * Checks the event's manifest signature against its creator and the mint's
+ * update authority
+ */
+export const verifyEventManifest = (
+  event: EventRecord,
+  mintUpdateAuthority: string | null
+): IssuerVerification => {
+  const { manifestSignature } = event;
+  if (!manifestSignature) {
+    return { verified: false, reason: 'The organizer did not sign this event.' };
+  }
+
+  const signatureValid = [EVENT_MANIFEST_VERSION, LEGACY_MANIFEST_VERSION].some(version => {
+    try {
+      return ed25519.verify(
+        bs58.decode(manifestSignature),
+        getManifestMessage(buildEventManifest(event, version)),
+        new PublicKey(event.creator).toBytes()
+      );
+    } catch {
+      return false;
+    }
+  });
+
+  if (!signatureValid) {
+    return { verified: false, reason: 'The event details do not match the organizer signature.' };
+  }
+
+  if (!mintUpdateAuthority) {
+    return { verified: false, reason: 'The event token has no update authority on-chain.' };
+  }
+
+  if (mintUpdateAuthority !== event.creator) {
+    return { verified: false, reason: 'The event token was not issued by the signing organizer.' };
+  }
+
+  return { verified: true, reason: 'Signed by the organizer who issued the event token.' };
+};
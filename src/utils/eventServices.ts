@@ -2,33 +2,53 @@
 import { PublicKey, Connection } from '@solana/web3.js';
 import { toast } from 'sonner';
 import { CompressionResult, EventDetails } from './types';
-import { getSolanaConnection } from './compressionApi';
+import { getSolanaConnection, getLightConnection } from './compressionApi';
 import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
 import { 
   createToken, 
   createTokenPool as createCompressionPool,
-  compressTokens, 
-  claimCompressedToken 
+  prepareCompressedSupplyMint,
+  getPendingTokenPoolInfo,
+  claimCompressedToken,
+  createClaimAuthority,
+  getEventSetupStatus,
+  getEventHealth,
+  EventHealth,
+  EventHealthCheck,
+  mintEventToken,
+  repairEventMetadata,
+  repairTokenPool,
+  mintCompressedSupply,
+  getClaimAuthorityBalance,
+  BatchTransaction,
+  BatchWallet,
+  ManifestSigner,
+  TokenPoolResult
 } from './token';
-import { eventService, poolService, claimService } from '@/lib/db';
+import { eventService, poolService, claimService, EventRecord, EventSetupProgress, EventSetupStep } from '@/lib/db';
+import { signEventManifest } from './eventManifest';
+import { summarizeSupply } from './supply';
 
 // Create a new token for an event with metadata
 export const createEvent = async (
   eventDetails: EventDetails,
   walletPublicKey: string,
   connection: Connection,
-  signTransaction: SignerWalletAdapter['signTransaction']
+  wallet: BatchWallet,
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>
 ): Promise<CompressionResult> => {
   console.log('Creating event with details:', eventDetails);
   console.log('Using wallet:', walletPublicKey);
 
   try {
-    // Create a token with metadata for the event
+    // Create a token with metadata for the event, signed so the claim page
+    // can prove who issued it
     const tokenResult = await createToken(
       eventDetails, 
       walletPublicKey,
       connection,
-      signTransaction
+      wallet,
+      createManifestSigner(signMessage)
     );
     
     console.log("Token created successfully:", tokenResult);
@@ -51,65 +71,116 @@ export const createEvent = async (
   }
 };
 
-// Create a token pool for compression
+// Signs the manifest of an event before its mint is sent, so the signature is
+// written to the mint with the rest of its metadata. A missing or rejected
+// signature doesn't stop the event, it is just shown as unverified when claiming.
+const createManifestSigner = (
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>
+): ManifestSigner => async (event) => {
+  if (!signMessage) {
+    toast.warning("Event Not Signed", {
+      description: "Your wallet doesn't support message signing, so attendees will see this event as unverified."
+    });
+    return undefined;
+  }
+  
+  try {
+    const manifestSignature = await signEventManifest(event, signMessage);
+    console.log("Event manifest signed:", manifestSignature);
+    return manifestSignature;
+  } catch (error) {
+    console.error('Error signing event manifest:', error);
+    toast.warning("Event Not Signed", {
+      description: "The event will be created, but without a signature attendees will see it as unverified."
+    });
+    return undefined;
+  }
+};
+
+// Create a token pool for compression and mint the event's supply into it.
+// Both transactions are prepared up front so the organizer approves them once.
 export const createEventTokenPool = async (
   mintAddress: string,
   walletPublicKey: string,
   connection: Connection,
-  signTransaction: SignerWalletAdapter['signTransaction']
-): Promise<{ transactionId: string, merkleRoot: string, poolAddress: string, stateTreeAddress: string }> => {
+  wallet: BatchWallet
+): Promise<TokenPoolResult> => {
   try {
     console.log("Creating token pool for mint:", mintAddress);
     
-    // Create a token pool for compression
+    // Get the event to determine the supply to mint
+    const eventId = await getEventIdByMintAddress(mintAddress);
+    const event = eventId ? await eventService.getEventById(eventId) : null;
+    
+    const followUps: BatchTransaction[] = [];
+    let compressionTxId: string | undefined;
+    if (event && event.attendeeCount > 0) {
+      // Mint the supply to the event's claim authority so it can co-sign claims
+      console.log(`Preparing ${event.attendeeCount} compressed tokens for event ${eventId}`);
+      
+      const claimAuthority = event.claimAuthority || (await createClaimAuthority(eventId)).toBase58();
+      const supplyMint = await prepareCompressedSupplyMint(
+        getLightConnection(),
+        {
+          mintAddress,
+          amount: event.attendeeCount,
+          decimals: event.decimals || 0,
+          ownerAddress: walletPublicKey,
+          destinationAddress: claimAuthority
+        },
+        // The pool doesn't exist until the first transaction lands
+        getPendingTokenPoolInfo(new PublicKey(mintAddress))
+      );
+      
+      supplyMint.onConfirmed = async (mintTxid) => {
+        console.log(`Successfully minted the compressed supply with transaction: ${mintTxid}`);
+        compressionTxId = mintTxid;
+        
+        // Update the pool with the supply information
+        await eventService.updateEvent(eventId, { claimAuthority });
+        await poolService.updatePool(eventId, {
+          compressionTxId: mintTxid,
+          stateTreeAddress: supplyMint.stateTreeAddress,
+          compressedAmount: event.attendeeCount,
+          compressedAt: new Date().toISOString()
+        });
+      };
+      followUps.push(supplyMint);
+    }
+    
+    // Create a token pool for compression, then mint the supply into it
     const poolResult = await createCompressionPool(
       mintAddress,
       walletPublicKey,
       connection,
-      signTransaction
+      wallet,
+      followUps
     );
     
     console.log("Token pool created successfully:", poolResult);
     
-    // Get the event to determine token supply for compression
-    const eventId = await getEventIdByMintAddress(mintAddress);
-    if (eventId) {
-      const event = await eventService.getEventById(eventId);
-      if (event && event.attendeeCount > 0) {
-        try {
-          // Compress the tokens into the pool for later decompression
-          console.log(`Pre-compressing ${event.attendeeCount} tokens for event ${eventId}`);
-          
-          const compressTxid = await compressTokens(
-            mintAddress,
-            event.attendeeCount,
-            walletPublicKey,
-            connection,
-            signTransaction
-          );
-          
-          console.log(`Successfully pre-compressed tokens with transaction: ${compressTxid}`);
-          
-          // Update the pool with compression information
-          await poolService.updatePool(eventId, {
-            compressionTxId: compressTxid,
-            compressedAmount: event.attendeeCount,
-            compressedAt: new Date().toISOString()
-          });
-          
-          toast.success("Tokens Prepared for Claiming", {
-            description: `${event.attendeeCount} tokens have been compressed and are ready for attendees to claim.`
-          });
-        } catch (compressionError) {
-          console.error("Error pre-compressing tokens:", compressionError);
-          // We continue even if compression fails, as the pool is created
-          toast.error("Token Compression Warning", {
-            description: "Pool was created but tokens could not be pre-compressed. Claims may not work correctly."
-          });
-        }
+    if (followUps.length > 0) {
+      if (compressionTxId) {
+        toast.success("Tokens Prepared for Claiming", {
+          description: `${event.attendeeCount} compressed tokens have been minted and are ready for attendees to claim.`
+        });
+      } else {
+        // We continue even if minting fails, as the pool is created
+        toast.error("Token Minting Warning", {
+          description: "Pool was created but the event supply could not be minted. Repair it from the Event Dashboard before attendees claim."
+        });
       }
     }
     
+    // Without its supply the event stays at the pool step, which mints it on retry
+    if (eventId) {
+      await saveSetupProgress(eventId, {
+        step: followUps.length === 0 || compressionTxId ? 'pool_created' : 'token_created',
+        poolTransactionId: poolResult.transactionId,
+        compressionTxId
+      });
+    }
+    
     // Return the result
     return poolResult;
   } catch (error) {
@@ -121,6 +192,133 @@ export const createEventTokenPool = async (
   }
 };
 
+// Save how far an event's creation wizard got, so setup can resume after a reload
+export const saveSetupProgress = async (
+  eventId: string,
+  progress: Partial<EventSetupProgress> & Pick<EventSetupProgress, 'step'>
+): Promise<void> => {
+  const event = await eventService.getEventById(eventId);
+  if (!event) {
+    return;
+  }
+  
+  await eventService.updateEvent(eventId, {
+    setup: {
+      ...event.setup,
+      ...progress,
+      updatedAt: new Date().toISOString()
+    }
+  });
+};
+
+// Events of the organizer whose setup was interrupted before it finished
+export const getIncompleteEvents = async (creator: string): Promise<EventRecord[]> => {
+  const events = await eventService.getAllEvents();
+  return events.filter(event =>
+    event.creator === creator && event.setup && event.setup.step !== 'complete'
+  );
+};
+
+// Work out where an interrupted setup continues. Steps that landed on chain
+// are skipped even if the tab closed before their progress was saved.
+export const resolveSetupResumeStep = async (event: EventRecord): Promise<EventSetupStep> => {
+  const status = await getEventSetupStatus(event);
+  
+  if (!status.mintCreated) {
+    throw new Error("The event's token was not found on chain, so its setup can't be resumed.");
+  }
+  if (!status.poolCreated || !status.supplyMinted) {
+    return 'token_created';
+  }
+  return 'pool_created';
+};
+
+// Rerun a single setup step of an event whose health check failed. Returns
+// the event as saved afterwards together with its health on chain.
+export const repairEventStep = async (
+  event: EventRecord,
+  step: EventHealthCheck,
+  walletPublicKey: string,
+  connection: Connection,
+  wallet: BatchWallet,
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<{ event: EventRecord, health: EventHealth }> => {
+  console.log(`Repairing the ${step} of event ${event.id}`);
+  
+  if (step !== 'mint' && !event.mintAddress) {
+    throw new Error("The event's token has to be created first");
+  }
+  
+  switch (step) {
+    case 'mint': {
+      // The old mint can't be recovered, so the event moves to a new one. The
+      // manifest covers the mint address, so it is signed again.
+      const { mintAddress, transactionId, manifestSignature } = await mintEventToken(
+        event.id,
+        event,
+        walletPublicKey,
+        connection,
+        wallet,
+        createManifestSigner(signMessage)
+      );
+      await eventService.updateEvent(event.id, { mintAddress, transactionId, manifestSignature });
+      break;
+    }
+    case 'metadata':
+      await repairEventMetadata(event, walletPublicKey, connection, wallet);
+      break;
+    case 'pool':
+      await repairTokenPool(event.id, event.mintAddress, walletPublicKey, connection, wallet);
+      break;
+    case 'supply': {
+      const claimAuthority = event.claimAuthority || (await createClaimAuthority(event.id)).toBase58();
+      await eventService.updateEvent(event.id, { claimAuthority });
+      
+      // Only top up what the claim authority is missing, part of the supply
+      // may have landed already. Claimed tokens have left its balance, and
+      // pending claims may still take theirs, so both count as minted.
+      const currentBalance = event.claimAuthority
+        ? await getClaimAuthorityBalance(claimAuthority, event.mintAddress, event.decimals || 0)
+        : 0;
+      const { recordedClaims, pending } = summarizeSupply(event.attendeeCount, await claimService.getClaimsByEventId(event.id));
+      const missingAmount = event.attendeeCount - currentBalance - recordedClaims - pending;
+      if (missingAmount <= 0) {
+        console.log(`Claim authority holds ${currentBalance} tokens and ${recordedClaims + pending} were claimed, nothing to mint`);
+        break;
+      }
+      
+      const { transactionId: compressionTxId, stateTreeAddress } = await mintCompressedSupply(
+        {
+          mintAddress: event.mintAddress,
+          amount: missingAmount,
+          decimals: event.decimals || 0,
+          ownerAddress: walletPublicKey,
+          destinationAddress: claimAuthority
+        },
+        wallet
+      );
+      await poolService.updatePool(event.id, {
+        compressionTxId,
+        stateTreeAddress,
+        compressedAmount: event.attendeeCount,
+        compressedAt: new Date().toISOString()
+      });
+      break;
+    }
+  }
+  
+  let repairedEvent = (await eventService.getEventById(event.id)) || event;
+  const health = await getEventHealth(repairedEvent);
+  
+  // A setup waiting on the pool step can move on to the QR code now
+  if (repairedEvent.setup?.step === 'token_created' && health.mint && health.pool && health.supply) {
+    await saveSetupProgress(event.id, { step: 'pool_created' });
+    repairedEvent = (await eventService.getEventById(event.id)) || repairedEvent;
+  }
+  
+  return { event: repairedEvent, health };
+};
+
 // Helper function to get event ID by mint address
 async function getEventIdByMintAddress(mintAddress: string): Promise<string | null> {
   const events = await eventService.getAllEvents();
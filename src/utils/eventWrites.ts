@@ -0,0 +1,153 @@
+import bs58 from 'bs58';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+
+/**
+ * Signed event changes.
+ *
+ * The claim service only takes changes to an event, its pool and its claim
+ * codes from the event's creator, and claims from the wallet they are for (or
+ * the creator, for airdrops). The wallet signs a one-off delegation to an
+ * in-browser session key, which then signs each request together with its
+ * method, path, body and time. Users approve one wallet prompt per session
+ * instead of one per change, and a captured request stops being accepted a few
+ * minutes after it was made.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const EVENT_WRITE_SESSION_SECONDS = 12 * 60 * 60;
+
+// How long a signed request is accepted, and the tolerated clock difference
+const EVENT_WRITE_MAX_AGE_SECONDS = 5 * 60;
+const CLOCK_SKEW_SECONDS = 30;
+
+// Scheme of the Authorization header that carries the signed request
+const AUTHORIZATION_SCHEME = 'EventWrite';
+
+export interface EventWriteSession {
+  wallet: string; // Wallet the session acts for
+  sessionKey: string; // Public key that signs the requests
+  expiresAt: number; // Unix time in seconds
+  delegationSignature: string; // Wallet's signature authorizing the session key
+}
+
+export interface EventWriteAuthorization {
+  session: EventWriteSession;
+  signedAt: number; // Unix time in seconds
+  signature: string; // Session key signature over the request, base58
+}
+
+export class EventWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventWriteError';
+  }
+}
+
+export const getEventWriteSessionMessage = (
+  session: Pick<EventWriteSession, 'wallet' | 'sessionKey' | 'expiresAt'>
+): Uint8Array =>
+  new TextEncoder().encode(`cpop-event-writes:${session.wallet}:${session.sessionKey}:${session.expiresAt}`);
+
+export const getEventWriteMessage = (method: string, path: string, body: string, signedAt: number): Uint8Array =>
+  new TextEncoder().encode(`cpop-event-write:${method}:${path}:${signedAt}:${body}`);
+
+const verifySignature = (signature: string, message: Uint8Array, signer: string): boolean => {
+  try {
+    return ed25519.verify(bs58.decode(signature), message, new PublicKey(signer).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Creates a session key and asks the wallet to authorize it
+ */
+export const createEventWriteSession = async (
+  wallet: string,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+  now: number = Date.now()
+): Promise<{ sessionKeypair: Keypair; session: EventWriteSession }> => {
+  const sessionKeypair = Keypair.generate();
+  const unsigned = {
+    wallet,
+    sessionKey: sessionKeypair.publicKey.toBase58(),
+    expiresAt: Math.floor(now / 1000) + EVENT_WRITE_SESSION_SECONDS
+  };
+
+  const delegation = await signMessage(getEventWriteSessionMessage(unsigned));
+
+  return {
+    sessionKeypair,
+    session: { ...unsigned, delegationSignature: bs58.encode(delegation) }
+  };
+};
+
+/**
+ * Signs a request with the session key, returning its Authorization header
+ */
+export const signEventWrite = (
+  sessionKeypair: Keypair,
+  session: EventWriteSession,
+  method: string,
+  path: string,
+  body: string,
+  now: number = Date.now()
+): string => {
+  const signedAt = Math.floor(now / 1000);
+  const signature = ed25519.sign(
+    getEventWriteMessage(method, path, body, signedAt),
+    sessionKeypair.secretKey.slice(0, 32)
+  );
+  const authorization: EventWriteAuthorization = { session, signedAt, signature: bs58.encode(signature) };
+
+  return `${AUTHORIZATION_SCHEME} ${btoa(JSON.stringify(authorization))}`;
+};
+
+/**
+ * Checks that a request was signed for `wallet`. Throws an EventWriteError
+ * describing why the request is rejected.
+ */
+export const verifyEventWrite = (
+  wallet: string,
+  method: string,
+  path: string,
+  body: string,
+  authorizationHeader: string | undefined,
+  now: number = Date.now()
+): void => {
+  const [scheme, encoded] = (authorizationHeader || '').split(' ');
+  if (scheme !== AUTHORIZATION_SCHEME || !encoded) {
+    throw new EventWriteError('This change must be signed with your wallet.');
+  }
+
+  let authorization: EventWriteAuthorization;
+  try {
+    authorization = JSON.parse(atob(encoded));
+  } catch {
+    throw new EventWriteError('The request signature could not be read.');
+  }
+  const { session, signedAt, signature } = authorization;
+
+  if (session?.wallet !== wallet) {
+    throw new EventWriteError('This change was signed by a different wallet.');
+  }
+
+  if (!verifySignature(session.delegationSignature, getEventWriteSessionMessage(session), wallet)) {
+    throw new EventWriteError('The signing session was not authorized by its wallet.');
+  }
+
+  if (!verifySignature(signature, getEventWriteMessage(method, path, body, signedAt), session.sessionKey)) {
+    throw new EventWriteError('The request does not match its signature.');
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (nowSeconds > session.expiresAt) {
+    throw new EventWriteError('The signing session has expired. Please sign in with your wallet again.');
+  }
+
+  if (signedAt > nowSeconds + CLOCK_SKEW_SECONDS || nowSeconds > signedAt + EVENT_WRITE_MAX_AGE_SECONDS) {
+    throw new EventWriteError('The request signature has expired. Please check your device clock.');
+  }
+};
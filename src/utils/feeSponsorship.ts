@@ -0,0 +1,76 @@
+import type { ClaimRecord, EventRecord } from '../lib/db';
+
+/**
+ * Fee sponsorship.
+ *
+ * When an event sponsors claims, its claim authority pays the transaction
+ * fees instead of the attendee, so wallets without SOL can still claim. The
+ * organizer funds the claim authority and sets a budget; every sponsored
+ * claim reserves its fee on the claim record so the spend can be totalled
+ * and capped, no matter which device submitted it.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export interface FeeSponsorship {
+  enabled: boolean;
+  budgetLamports: number;
+}
+
+// Solana charges per signature; Light charges a network fee for nullifying
+// inputs and a rollover fee per output account (STATE_MERKLE_TREE_NETWORK_FEE
+// and STATE_MERKLE_TREE_ROLLOVER_FEE in stateless.js)
+export const LAMPORTS_PER_SIGNATURE = 5000;
+export const LIGHT_NETWORK_FEE_LAMPORTS = 5000;
+export const LIGHT_ROLLOVER_FEE_LAMPORTS = 300;
+
+// A claim spends one input and creates the recipient's account plus change
+const CLAIM_OUTPUT_ACCOUNTS = 2;
+
+/**
+ * Fee of a sponsored claim, where the claim authority is the only signer
+ */
+export const estimateSponsoredClaimFee = (signatures: number = 1): number =>
+  signatures * LAMPORTS_PER_SIGNATURE +
+  LIGHT_NETWORK_FEE_LAMPORTS +
+  CLAIM_OUTPUT_ACCOUNTS * LIGHT_ROLLOVER_FEE_LAMPORTS;
+
+export interface SponsorshipBudget {
+  enabled: boolean;
+  budgetLamports: number;
+  spentLamports: number;
+  remainingLamports: number;
+  sponsoredClaims: number;
+}
+
+// Pending claims hold their fee until they settle. A failed claim only counts
+// if its transaction was sent, since that still costs the fee.
+const chargesFee = (claim: ClaimRecord) =>
+  claim.sponsoredFeeLamports !== undefined &&
+  (claim.status !== 'failed' || Boolean(claim.transactionId));
+
+export const getSponsorshipBudget = (
+  event: Pick<EventRecord, 'feeSponsorship'>,
+  claims: ClaimRecord[]
+): SponsorshipBudget => {
+  const sponsored = claims.filter(chargesFee);
+  const spentLamports = sponsored.reduce((sum, claim) => sum + (claim.sponsoredFeeLamports || 0), 0);
+  const budgetLamports = event.feeSponsorship?.budgetLamports || 0;
+
+  return {
+    enabled: Boolean(event.feeSponsorship?.enabled),
+    budgetLamports,
+    spentLamports,
+    remainingLamports: Math.max(0, budgetLamports - spentLamports),
+    sponsoredClaims: sponsored.length
+  };
+};
+
+export const canSponsorClaim = (
+  event: Pick<EventRecord, 'feeSponsorship'>,
+  claims: ClaimRecord[],
+  feeLamports: number = estimateSponsoredClaimFee()
+): boolean => {
+  const budget = getSponsorshipBudget(event, claims);
+  return budget.enabled && budget.remainingLamports >= feeLamports;
+};
@@ -1,4 +1,6 @@
 
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+
 /**
  * Format a date string or Date object into a human-readable format
  */
@@ -37,3 +39,49 @@ export function formatTransactionId(txId: string): string {
   
   return `${txId.substring(0, 6)}...${txId.substring(txId.length - 4)}`;
 }
+
+/**
+ * Format a duration in seconds as a countdown, e.g. "2d 03:04:05"
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const days = Math.floor(seconds / 86400);
+  const time = [
+    Math.floor((seconds % 86400) / 3600),
+    Math.floor((seconds % 3600) / 60),
+    seconds % 60
+  ].map(part => part.toString().padStart(2, '0')).join(':');
+  
+  return days > 0 ? `${days}d ${time}` : time;
+}
+
+/**
+ * Format an ISO timestamp as the local value of a datetime-local input
+ */
+export function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return '';
+  
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Format lamports as SOL without trailing zeros, e.g. "0.0106 SOL"
+ */
+export function formatSol(lamports: number): string {
+  return `${(lamports / LAMPORTS_PER_SOL).toFixed(6).replace(/\.?0+$/, '')} SOL`;
+}
+
+/**
+ * Format a raw token amount in whole tokens without trailing zeros. It never
+ * goes through a float, so balances past 2^53 raw units stay exact.
+ */
+export function formatTokenAmount(rawAmount: bigint, decimals: number): string {
+  const base = 10n ** BigInt(decimals);
+  const fraction = (rawAmount % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  const whole = (rawAmount / base).toLocaleString();
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { NETWORK } from './compressionApi';
+
+/**
+ * Claim QR payloads.
+ *
+ * A QR code holds a claim URL (`/claim/<eventId>?p=<payload>`) so that any
+ * phone camera opens the app, while the `p` parameter carries a versioned,
+ * organizer-signed description of the event. Older QR codes that only held a
+ * claim URL, a JSON object with an `eventId` or the raw event ID still decode
+ * as version 0 payloads. Printed single-use claim codes travel next to the
+ * payload in a separate `code` parameter.
+ */
+
+export const QR_PAYLOAD_VERSION = 1;
+
+const PAYLOAD_PARAM = 'p';
+const CLAIM_CODE_PARAM = 'code';
+
+const publicKeyString = (field: string) =>
+  z.string().refine(value => {
+    try {
+      new PublicKey(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: `${field} must be a valid Solana address` });
+
+export const qrPayloadSchema = z.object({
+  v: z.literal(QR_PAYLOAD_VERSION),
+  eventId: z.string().min(1, 'Event ID is missing'),
+  mint: publicKeyString('Mint address'),
+  cluster: z.enum(['devnet', 'testnet', 'mainnet-beta', 'localnet']),
+  organizer: publicKeyString('Organizer'),
+  signature: z.string().min(1, 'Organizer signature is missing'),
+  // Present on rotating QR codes, see rotatingQr.ts
+  rotation: z.object({
+    nonce: z.string().min(1, 'Rotating code nonce is missing'),
+    issuedAt: z.number().int().positive(),
+    signature: z.string().min(1, 'Rotating code signature is missing')
+  }).optional()
+});
+
+export type QrPayload = z.infer<typeof qrPayloadSchema>;
+
+export type UnsignedQrPayload = Omit<QrPayload, 'signature' | 'rotation'>;
+
+/**
+ * Result of decoding any supported QR format. Legacy (version 0) payloads only
+ * carry an event ID. Either version can come with a single-use claim code.
+ */
+export type DecodedClaimPayload = (
+  | { version: 0; eventId: string }
+  | ({ version: typeof QR_PAYLOAD_VERSION } & QrPayload)
+) & { claimCode?: string };
+
+export type QrPayloadErrorCode =
+  | 'EMPTY'
+  | 'INVALID_URL'
+  | 'INVALID_ENCODING'
+  | 'INVALID_JSON'
+  | 'UNSUPPORTED_VERSION'
+  | 'INVALID_FIELDS'
+  | 'WRONG_CLUSTER'
+  | 'INVALID_SIGNATURE'
+  | 'EVENT_MISMATCH';
+
+export class QrPayloadError extends Error {
+  code: QrPayloadErrorCode;
+
+  constructor(code: QrPayloadErrorCode, message: string) {
+    super(message);
+    this.name = 'QrPayloadError';
+    this.code = code;
+  }
+}
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * The exact bytes the organizer signs. Field order is fixed so the signature
+ * does not depend on how the JSON was serialized.
+ */
+export const getQrSigningMessage = (payload: UnsignedQrPayload): Uint8Array =>
+  new TextEncoder().encode(
+    `cpop-claim:v${payload.v}:${payload.eventId}:${payload.mint}:${payload.cluster}:${payload.organizer}`
+  );
+
+export const verifyQrPayloadSignature = (payload: QrPayload): boolean => {
+  try {
+    return ed25519.verify(
+      bs58.decode(payload.signature),
+      getQrSigningMessage(payload),
+      new PublicKey(payload.organizer).toBytes()
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks a signed payload against the event it resolved to. The signature
+ * only proves who signed the payload, so a payload signed by anyone for some
+ * other mint must not be taken as the event's own.
+ */
+export const assertPayloadMatchesEvent = (
+  payload: Pick<QrPayload, 'mint' | 'organizer'>,
+  event: { mintAddress: string | null; creator: string }
+): void => {
+  if (payload.mint !== event.mintAddress) {
+    throw new QrPayloadError('EVENT_MISMATCH', "This QR code was not issued for this event's token.");
+  }
+  if (payload.organizer !== event.creator) {
+    throw new QrPayloadError('EVENT_MISMATCH', "This QR code was not signed by the event's organizer.");
+  }
+};
+
+/**
+ * Builds and signs a payload for an event using the organizer's wallet
+ */
+export const createQrPayload = async (
+  eventId: string,
+  mintAddress: string,
+  organizer: PublicKey,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<QrPayload> => {
+  const unsigned: UnsignedQrPayload = {
+    v: QR_PAYLOAD_VERSION,
+    eventId,
+    mint: mintAddress,
+    cluster: NETWORK,
+    organizer: organizer.toBase58()
+  };
+
+  const signature = await signMessage(getQrSigningMessage(unsigned));
+
+  return { ...unsigned, signature: bs58.encode(signature) };
+};
+
+/**
+ * Returns the in-app claim path for a decoded payload, keeping the signed
+ * payload in the query string so the claim page can read the mint and organizer.
+ */
+export const getClaimPath = (payload: DecodedClaimPayload): string => {
+  const path = `/claim/${encodeURIComponent(payload.eventId)}`;
+  const params = new URLSearchParams();
+  if (payload.version !== 0) {
+    const { version, claimCode, ...qrPayload } = payload;
+    params.set(PAYLOAD_PARAM, toBase64Url(JSON.stringify(qrPayload)));
+  }
+  if (payload.claimCode) {
+    params.set(CLAIM_CODE_PARAM, payload.claimCode);
+  }
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+/**
+ * Encodes a payload as the claim URL placed in the QR code
+ */
+export const encodeClaimPayload = (payload: QrPayload, origin: string = window.location.origin): string =>
+  `${origin}${getClaimPath({ version: QR_PAYLOAD_VERSION, ...payload })}`;
+
+/**
+ * Claim URL for a printed single-use code
+ */
+export const encodeClaimCodeUrl = (eventId: string, claimCode: string, origin: string = window.location.origin): string =>
+  `${origin}${getClaimPath({ version: 0, eventId, claimCode })}`;
+
+const parsePayloadObject = (value: unknown): DecodedClaimPayload => {
+  if (typeof value !== 'object' || value === null) {
+    throw new QrPayloadError('INVALID_FIELDS', 'QR code payload is not an object.');
+  }
+
+  const record = value as Record<string, unknown>;
+
+  // Legacy JSON QR codes only carried the event ID
+  if (record.v === undefined) {
+    if (typeof record.eventId === 'string' && record.eventId.trim()) {
+      return { version: 0, eventId: record.eventId.trim() };
+    }
+    throw new QrPayloadError('INVALID_FIELDS', 'QR code does not contain an event ID.');
+  }
+
+  if (record.v !== QR_PAYLOAD_VERSION) {
+    throw new QrPayloadError(
+      'UNSUPPORTED_VERSION',
+      `QR code uses payload version ${String(record.v)}, which this app does not support. Please update the app.`
+    );
+  }
+
+  const result = qrPayloadSchema.safeParse(record);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new QrPayloadError(
+      'INVALID_FIELDS',
+      `Invalid QR code: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`
+    );
+  }
+
+  const payload = result.data;
+
+  if (payload.cluster !== NETWORK) {
+    throw new QrPayloadError(
+      'WRONG_CLUSTER',
+      `This QR code is for an event on ${payload.cluster}, but the app is connected to ${NETWORK}.`
+    );
+  }
+
+  if (!verifyQrPayloadSignature(payload)) {
+    throw new QrPayloadError('INVALID_SIGNATURE', 'QR code signature does not match the event organizer.');
+  }
+
+  return { version: QR_PAYLOAD_VERSION, ...payload };
+};
+
+const decodePayloadParam = (encoded: string): DecodedClaimPayload => {
+  let json: string;
+  try {
+    json = fromBase64Url(encoded);
+  } catch {
+    throw new QrPayloadError('INVALID_ENCODING', 'QR code payload is not valid base64.');
+  }
+
+  try {
+    return parsePayloadObject(JSON.parse(json));
+  } catch (error) {
+    if (error instanceof QrPayloadError) throw error;
+    throw new QrPayloadError('INVALID_JSON', 'QR code payload is not valid JSON.');
+  }
+};
+
+/**
+ * Decodes anything a claim QR code or manual entry may contain: a claim URL
+ * (with or without a signed payload), a JSON payload, or a raw event ID.
+ * Throws a QrPayloadError describing what is wrong with malformed input.
+ */
+export const decodeClaimPayload = (input: string): DecodedClaimPayload => {
+  const text = input?.trim();
+  if (!text) {
+    throw new QrPayloadError('EMPTY', 'QR code is empty.');
+  }
+
+  if (text.includes('/claim/') || /^https?:\/\//i.test(text)) {
+    let url: URL;
+    try {
+      url = new URL(text, window.location.origin);
+    } catch {
+      throw new QrPayloadError('INVALID_URL', 'QR code contains a malformed claim link.');
+    }
+
+    const claimCode = url.searchParams.get(CLAIM_CODE_PARAM) || undefined;
+    const encoded = url.searchParams.get(PAYLOAD_PARAM);
+    if (encoded) {
+      const payload = decodePayloadParam(encoded);
+      const pathEventId = decodeURIComponent(url.pathname.split('/claim/')[1] || '');
+      if (pathEventId && pathEventId !== payload.eventId) {
+        throw new QrPayloadError('INVALID_FIELDS', 'Claim link does not match its signed event.');
+      }
+      return { ...payload, claimCode };
+    }
+
+    const eventId = url.pathname.split('/claim/')[1];
+    if (!eventId) {
+      throw new QrPayloadError('INVALID_URL', 'Link is not a claim link for an event.');
+    }
+    return { version: 0, eventId: decodeURIComponent(eventId.replace(/\/$/, '')), claimCode };
+  }
+
+  if (text.startsWith('{')) {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new QrPayloadError('INVALID_JSON', 'QR code contains malformed JSON.');
+    }
+    return parsePayloadObject(value);
+  }
+
+  // Anything else is treated as a raw event ID
+  if (/\s/.test(text)) {
+    throw new QrPayloadError('INVALID_FIELDS', 'QR code does not contain a valid event ID.');
+  }
+  return { version: 0, eventId: text };
+};
+
+/**
+ * Reads the signed payload and claim code from the claim page query string, if any
+ */
+export const decodeClaimSearchParams = (eventId: string, search: URLSearchParams): DecodedClaimPayload => {
+  const claimCode = search.get(CLAIM_CODE_PARAM) || undefined;
+  const encoded = search.get(PAYLOAD_PARAM);
+  if (!encoded) {
+    return { version: 0, eventId, claimCode };
+  }
+  const payload = decodePayloadParam(encoded);
+  if (payload.eventId !== eventId) {
+    throw new QrPayloadError('INVALID_FIELDS', 'Claim link does not match its signed event.');
+  }
+  return { ...payload, claimCode };
+};
@@ -0,0 +1,158 @@
+import bs58 from 'bs58';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import type { RotatingQrConfig, RotationToken, ClaimRecord } from '../lib/db';
+
+/**
+ * Rotating QR codes.
+ *
+ * When an event uses rotating codes the organizer's wallet signs a one-off
+ * delegation to an in-browser session key. The session key then signs a fresh
+ * nonce every `intervalSeconds`, which is embedded in the QR payload. A claim
+ * must carry a nonce that is signed by the delegated session key and is no
+ * older than `intervalSeconds + graceSeconds`. Each nonce claims once, and the
+ * claim service records used nonces so they can't be replayed. A nonce is also
+ * treated as a replay once claims have been made with a nonce issued more than
+ * that window after it, which holds even if the verifier's clock is off. A
+ * photographed code therefore stops working shortly after it leaves the room.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const DEFAULT_ROTATION_INTERVAL_SECONDS = 30;
+export const DEFAULT_ROTATION_GRACE_SECONDS = 15;
+
+// Tolerated clock difference between the organizer's device and the verifier
+const CLOCK_SKEW_SECONDS = 30;
+
+export const ROTATION_NONCE_USED_MESSAGE = 'This QR code has already been used. Please scan the current code shown at the event.';
+
+export type RotationTokenErrorCode =
+  | 'MISSING'
+  | 'INVALID_DELEGATION'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_YET_VALID'
+  | 'EXPIRED'
+  | 'REPLAYED';
+
+export class RotationTokenError extends Error {
+  code: RotationTokenErrorCode;
+
+  constructor(code: RotationTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'RotationTokenError';
+    this.code = code;
+  }
+}
+
+export const getSessionDelegationMessage = (
+  eventId: string,
+  config: Pick<RotatingQrConfig, 'sessionKey' | 'intervalSeconds' | 'graceSeconds'>
+): Uint8Array =>
+  new TextEncoder().encode(
+    `cpop-rotating-session:${eventId}:${config.sessionKey}:${config.intervalSeconds}:${config.graceSeconds}`
+  );
+
+export const getRotationTokenMessage = (eventId: string, nonce: string, issuedAt: number): Uint8Array =>
+  new TextEncoder().encode(`cpop-rotating-nonce:${eventId}:${nonce}:${issuedAt}`);
+
+const verifySignature = (signature: string, message: Uint8Array, signer: string): boolean => {
+  try {
+    return ed25519.verify(bs58.decode(signature), message, new PublicKey(signer).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Creates a session key and asks the organizer's wallet to authorize it
+ */
+export const createRotatingQrSession = async (
+  eventId: string,
+  intervalSeconds: number,
+  graceSeconds: number,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<{ sessionKeypair: Keypair; config: RotatingQrConfig }> => {
+  const sessionKeypair = Keypair.generate();
+  const unsigned = {
+    sessionKey: sessionKeypair.publicKey.toBase58(),
+    intervalSeconds,
+    graceSeconds
+  };
+
+  const delegation = await signMessage(getSessionDelegationMessage(eventId, unsigned));
+
+  return {
+    sessionKeypair,
+    config: {
+      ...unsigned,
+      enabled: true,
+      delegationSignature: bs58.encode(delegation)
+    }
+  };
+};
+
+/**
+ * Signs a fresh nonce with the session key
+ */
+export const createRotationToken = (
+  eventId: string,
+  sessionKeypair: Keypair,
+  now: number = Date.now()
+): RotationToken => {
+  const nonce = bs58.encode(crypto.getRandomValues(new Uint8Array(16)));
+  const issuedAt = Math.floor(now / 1000);
+  const signature = ed25519.sign(
+    getRotationTokenMessage(eventId, nonce, issuedAt),
+    sessionKeypair.secretKey.slice(0, 32)
+  );
+
+  return { nonce, issuedAt, signature: bs58.encode(signature) };
+};
+
+/**
+ * Checks a claim's rotation token. Throws a RotationTokenError describing why
+ * the token is rejected.
+ */
+export const verifyRotationToken = (
+  eventId: string,
+  organizer: string,
+  config: RotatingQrConfig,
+  token: RotationToken | undefined,
+  previousClaims: ClaimRecord[],
+  now: number = Date.now()
+): void => {
+  if (!token) {
+    throw new RotationTokenError('MISSING', 'This event uses rotating QR codes. Please scan the code shown at the event.');
+  }
+
+  if (!verifySignature(config.delegationSignature, getSessionDelegationMessage(eventId, config), organizer)) {
+    throw new RotationTokenError('INVALID_DELEGATION', 'The rotating QR session was not authorized by the organizer.');
+  }
+
+  if (!verifySignature(token.signature, getRotationTokenMessage(eventId, token.nonce, token.issuedAt), config.sessionKey)) {
+    throw new RotationTokenError('INVALID_SIGNATURE', 'This QR code was not issued by the organizer.');
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  const validSeconds = config.intervalSeconds + config.graceSeconds;
+
+  if (token.issuedAt > nowSeconds + CLOCK_SKEW_SECONDS) {
+    throw new RotationTokenError('NOT_YET_VALID', 'This QR code is not valid yet. Please check your device clock.');
+  }
+
+  if (nowSeconds > token.issuedAt + validSeconds) {
+    throw new RotationTokenError('EXPIRED', 'This QR code has expired. Please scan the current code shown at the event.');
+  }
+
+  if (previousClaims.some(claim => claim.rotationToken?.nonce === token.nonce)) {
+    throw new RotationTokenError('REPLAYED', ROTATION_NONCE_USED_MESSAGE);
+  }
+
+  const replayed = previousClaims.some(claim =>
+    claim.rotationToken && claim.rotationToken.issuedAt > token.issuedAt + validSeconds
+  );
+  if (replayed) {
+    throw new RotationTokenError('REPLAYED', 'This QR code has been replaced by a newer one. Please scan the current code shown at the event.');
+  }
+};
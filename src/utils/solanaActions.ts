@@ -0,0 +1,45 @@
+/**
+ * Solana Actions (Blinks) for claims.
+ *
+ * Blink-aware clients such as X and Discord unfurl a shared claim link into
+ * an action card. The claim service serves the action: GET describes the
+ * event and POST returns the same claim transaction as a Solana Pay request.
+ * The app serves an `actions.json` that maps its claim pages onto the action
+ * endpoint on the service's domain.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const ACTIONS_CLAIM_PATH = '/api/actions/claim';
+export const ACTIONS_VERSION = '2.4';
+
+// CAIP-2 ids of the clusters, sent in the X-Blockchain-Ids header
+export const BLOCKCHAIN_IDS: Record<string, string> = {
+  'mainnet-beta': 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  devnet: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  testnet: 'solana:4uhcVJyU9pJkvQyS88uRDiswHXSCkY3z'
+};
+
+export const getActionUrl = (serviceUrl: string, eventId: string): string =>
+  `${serviceUrl.replace(/\/$/, '')}${ACTIONS_CLAIM_PATH}/${encodeURIComponent(eventId)}`;
+
+/**
+ * Link to share on social platforms. Clients that understand Actions render
+ * it as a card; others open the action in dial.to.
+ */
+export const getBlinkUrl = (serviceUrl: string, eventId: string): string =>
+  `https://dial.to/?action=${encodeURIComponent(`solana-action:${getActionUrl(serviceUrl, eventId)}`)}`;
+
+// Served from the app's domain, so the action paths point at the claim service
+export const getAppActionsJson = (serviceUrl: string) => ({
+  rules: [
+    { pathPattern: '/claim/*', apiPath: `${serviceUrl.replace(/\/$/, '')}${ACTIONS_CLAIM_PATH}/*` }
+  ]
+});
+
+// Served from the claim service's own domain
+export const getServiceActionsJson = () => ({
+  rules: [
+    { pathPattern: `${ACTIONS_CLAIM_PATH}/**`, apiPath: `${ACTIONS_CLAIM_PATH}/**` }
+  ]
+});
@@ -0,0 +1,64 @@
+import type { RotationToken } from '../lib/db';
+
+/**
+ * Solana Pay transaction requests for claims.
+ *
+ * The event QR code can hold a `solana:` URL instead of a link to the app.
+ * Wallets such as Phantom and Solflare scan it, ask the claim service for a
+ * claim transaction for the scanning account and sign it themselves. Proof the
+ * claim needs (a rotating QR nonce or a printed claim code) travels in the
+ * query string, which wallets send back with their request.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const SOLANA_PAY_CLAIM_PATH = '/api/solana-pay/claim';
+
+export interface SolanaPayClaimParams {
+  rotationToken?: RotationToken;
+  claimCode?: string;
+}
+
+/**
+ * The HTTPS endpoint wallets call for a claim transaction
+ */
+export const getSolanaPayClaimLink = (
+  serviceUrl: string,
+  eventId: string,
+  { rotationToken, claimCode }: SolanaPayClaimParams = {}
+): string => {
+  const params = new URLSearchParams();
+  if (rotationToken) {
+    params.set('nonce', rotationToken.nonce);
+    params.set('issuedAt', String(rotationToken.issuedAt));
+    params.set('sig', rotationToken.signature);
+  }
+  if (claimCode) {
+    params.set('code', claimCode);
+  }
+  const search = params.toString();
+  return `${serviceUrl.replace(/\/$/, '')}${SOLANA_PAY_CLAIM_PATH}/${encodeURIComponent(eventId)}${search ? `?${search}` : ''}`;
+};
+
+/**
+ * The `solana:` URL placed in the QR code. The link is URL-encoded as the
+ * Solana Pay spec requires when it has a query string.
+ */
+export const encodeSolanaPayClaimUrl = (
+  serviceUrl: string,
+  eventId: string,
+  params: SolanaPayClaimParams = {}
+): string => `solana:${encodeURIComponent(getSolanaPayClaimLink(serviceUrl, eventId, params))}`;
+
+export const parseSolanaPayClaimParams = (query: URLSearchParams): SolanaPayClaimParams => {
+  const nonce = query.get('nonce');
+  const issuedAt = Number(query.get('issuedAt'));
+  const signature = query.get('sig');
+
+  return {
+    rotationToken: nonce && signature && Number.isInteger(issuedAt)
+      ? { nonce, issuedAt, signature }
+      : undefined,
+    claimCode: query.get('code') || undefined
+  };
+};
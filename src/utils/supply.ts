@@ -0,0 +1,68 @@
+import type { ClaimRecord, EventRecord, PoolRecord } from '../lib/db';
+
+/**
+ * Supply accounting.
+ *
+ * An event's supply is the number of tokens minted in compressed form to its
+ * claim authority when the pool was created, and every attendee claim
+ * transfers one whole token of it.
+ * Airdrops are minted separately by the organizer, so they never draw from
+ * the supply. The claim authority's compressed balance on chain is the source
+ * of truth; confirmed claim records are used when it can't be read.
+ *
+ * This module has no app-specific imports so the claim service can reuse it.
+ */
+
+export const SOLD_OUT_MESSAGE = 'This event is sold out. All of its tokens have been claimed.';
+
+export interface EventSupply {
+  total: number;
+  claimed: number;
+  remaining: number;
+  pending: number; // Claims sent but not confirmed yet
+  recordedClaims: number; // Confirmed attendee claims in the database
+  onChainRemaining: number | null; // Claim authority balance, null when unavailable
+  isReconciled: boolean; // Chain and records agree, or the chain wasn't checked
+  soldOut: boolean;
+}
+
+export const getSupplyTotal = (
+  event: Pick<EventRecord, 'attendeeCount'>,
+  pool?: Pick<PoolRecord, 'compressedAmount'> | null
+): number => pool?.compressedAmount ?? event.attendeeCount ?? 0;
+
+const drawsFromSupply = (claim: ClaimRecord) => claim.source !== 'airdrop';
+
+export const summarizeSupply = (
+  total: number,
+  claims: ClaimRecord[],
+  onChainRemaining: number | null = null
+): EventSupply => {
+  const supplyClaims = claims.filter(drawsFromSupply);
+  const recordedClaims = supplyClaims.filter(claim => claim.status === 'confirmed').length;
+  const pending = supplyClaims.filter(claim => claim.status === 'pending').length;
+
+  const remaining = Math.max(0, onChainRemaining ?? total - recordedClaims);
+
+  return {
+    total,
+    claimed: Math.max(0, total - remaining),
+    remaining,
+    pending,
+    recordedClaims,
+    onChainRemaining,
+    isReconciled: onChainRemaining === null || onChainRemaining === total - recordedClaims,
+    soldOut: remaining <= 0
+  };
+};
+
+/**
+ * Whether another claim can be reserved, counting pending claims as taken so
+ * the last token can't be handed to two attendees at once
+ */
+export const hasSupplyForClaim = (total: number, claims: ClaimRecord[]): boolean => {
+  const reserved = claims.filter(claim =>
+    drawsFromSupply(claim) && (claim.status === 'confirmed' || claim.status === 'pending')
+  ).length;
+  return reserved < total;
+};
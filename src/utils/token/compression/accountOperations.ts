@@ -1,23 +1,80 @@
 
-import { 
-  Connection, 
-  PublicKey
-} from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import { bn, encodeBN254toBase58, ParsedTokenAccount } from '@lightprotocol/stateless.js';
+import { getLightConnection } from '@/utils/compressionApi';
+import { CompressedTokenAccount, CompressedTokenAccountPage } from '../types';
 
-// Get compressed token accounts for a wallet
+const DEFAULT_PAGE_LIMIT = 100;
+
+// Light's token program stores the SPL account state: 1 is initialized, 2 is frozen
+const FROZEN_ACCOUNT_STATE = 2;
+
+export interface CompressedTokenAccountQuery {
+  mint?: PublicKey;
+  cursor?: string;
+  limit?: number;
+}
+
+const toCompressedTokenAccount = ({ compressedAccount, parsed }: ParsedTokenAccount): CompressedTokenAccount => ({
+  mint: parsed.mint.toBase58(),
+  owner: parsed.owner.toBase58(),
+  amount: BigInt(parsed.amount.toString()),
+  delegate: parsed.delegate?.toBase58(),
+  state: parsed.state === FROZEN_ACCOUNT_STATE ? 'frozen' : 'initialized',
+  merkleContext: {
+    merkleTree: compressedAccount.treeInfo.tree.toBase58(),
+    queue: compressedAccount.treeInfo.queue.toBase58(),
+    hash: encodeBN254toBase58(compressedAccount.hash),
+    proveByIndex: compressedAccount.proveByIndex
+  },
+  leafIndex: compressedAccount.leafIndex
+});
+
+/**
+ * Gets one page of the compressed token accounts a wallet owns from the
+ * Light indexer, optionally only those of one mint
+ */
 export const getCompressedTokenAccounts = async (
-  connection: Connection,
-  owner: PublicKey
-): Promise<any[]> => {
+  owner: PublicKey,
+  { mint, cursor, limit = DEFAULT_PAGE_LIMIT }: CompressedTokenAccountQuery = {}
+): Promise<CompressedTokenAccountPage> => {
   try {
-    console.log(`Getting compressed token accounts for ${owner.toBase58()}`);
-    
-    // In a real implementation, this would query Light Protocol's state tree
-    // For this demo, we'll return an empty array
-    
-    return [];
+    console.log(`[Light Protocol] Getting compressed token accounts for ${owner.toBase58()}`);
+
+    const lightConnection = getLightConnection();
+    const page = await lightConnection.getCompressedTokenAccountsByOwner(owner, {
+      mint,
+      cursor,
+      limit: bn(limit)
+    });
+
+    return {
+      items: page.items.map(toCompressedTokenAccount),
+      cursor: page.cursor
+    };
   } catch (error) {
-    console.error('Error getting compressed token accounts:', error);
-    throw error;
+    console.error('[Light Protocol] Error getting compressed token accounts:', error);
+    throw new Error(`Failed to get compressed token accounts: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
+
+/**
+ * Follows the indexer's cursors to get every compressed token account a wallet owns
+ */
+export const getAllCompressedTokenAccounts = async (
+  owner: PublicKey,
+  { mint, limit }: Omit<CompressedTokenAccountQuery, 'cursor'> = {}
+): Promise<CompressedTokenAccount[]> => {
+  const accounts: CompressedTokenAccount[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await getCompressedTokenAccounts(owner, { mint, cursor, limit });
+    accounts.push(...page.items);
+
+    // Stop rather than loop if the indexer hands back the cursor it was given
+    cursor = page.cursor && page.cursor !== cursor ? page.cursor : undefined;
+  } while (cursor);
+
+  return accounts;
+};
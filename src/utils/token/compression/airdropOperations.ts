@@ -0,0 +1,332 @@
+
+import { PublicKey, ComputeBudgetProgram, PACKET_DATA_SIZE, SignatureStatus, TransactionInstruction } from '@solana/web3.js';
+import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import bs58 from 'bs58';
+import { toast } from 'sonner';
+import { CompressedTokenProgram, getTokenPoolInfos, selectTokenPoolInfo, TokenPoolInfo } from '@lightprotocol/compressed-token';
+import { buildTx, sendAndConfirmTx, selectStateTreeInfo, Rpc, StateTreeInfo } from '@lightprotocol/stateless.js';
+import { eventService, claimService, ClaimRecord } from '@/lib/db';
+import { getLightConnection } from '@/utils/compressionApi';
+
+// Light's airdrop guide mints to at most 5 recipients per instruction
+const RECIPIENTS_PER_INSTRUCTION = 5;
+const COMPUTE_UNITS_PER_INSTRUCTION = 120_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+export interface AirdropProgress {
+  total: number;
+  confirmed: number;
+  failed: number;
+  remaining: number;
+}
+
+export interface AirdropResult {
+  confirmed: string[]; // Delivered by this run
+  alreadyDelivered: string[]; // Confirmed by an earlier run or claimed by the attendee
+  inFlight: string[]; // Sent by an earlier run and not expired yet, retry later
+  failed: string[];
+  invalid: string[]; // Not valid wallet addresses
+}
+
+interface PendingRecipient {
+  wallet: string;
+  claimId: number;
+}
+
+const buildMintInstructions = (
+  recipients: PendingRecipient[],
+  payer: PublicKey,
+  mint: PublicKey,
+  amount: number,
+  outputStateTreeInfo: StateTreeInfo,
+  tokenPoolInfo: TokenPoolInfo
+): Promise<TransactionInstruction[]> => {
+  const chunks: PendingRecipient[][] = [];
+  for (let i = 0; i < recipients.length; i += RECIPIENTS_PER_INSTRUCTION) {
+    chunks.push(recipients.slice(i, i + RECIPIENTS_PER_INSTRUCTION));
+  }
+
+  return Promise.all(chunks.map(chunk =>
+    CompressedTokenProgram.mintTo({
+      feePayer: payer,
+      authority: payer,
+      mint,
+      toPubkey: chunk.map(recipient => new PublicKey(recipient.wallet)),
+      amount: chunk.map(() => amount),
+      outputStateTreeInfo,
+      tokenPoolInfo
+    })
+  ));
+};
+
+const withComputeBudget = (instructions: TransactionInstruction[]): TransactionInstruction[] => [
+  ComputeBudgetProgram.setComputeUnitLimit({
+    units: Math.min(MAX_COMPUTE_UNITS, instructions.length * COMPUTE_UNITS_PER_INSTRUCTION)
+  }),
+  ...instructions
+];
+
+const fitsInTransaction = (instructions: TransactionInstruction[], payer: PublicKey): boolean => {
+  if (instructions.length * COMPUTE_UNITS_PER_INSTRUCTION > MAX_COMPUTE_UNITS) {
+    return false;
+  }
+  try {
+    // The blockhash only affects the size through its fixed 32 bytes
+    const transaction = buildTx(withComputeBudget(instructions), payer, PublicKey.default.toBase58());
+    return transaction.serialize().length <= PACKET_DATA_SIZE;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Splits recipients into as few transactions as the size and compute limits allow
+ */
+const packRecipients = async (
+  recipients: PendingRecipient[],
+  payer: PublicKey,
+  mint: PublicKey,
+  amount: number,
+  outputStateTreeInfo: StateTreeInfo,
+  tokenPoolInfo: TokenPoolInfo
+): Promise<PendingRecipient[][]> => {
+  const batches: PendingRecipient[][] = [];
+  let batch: PendingRecipient[] = [];
+
+  for (const recipient of recipients) {
+    const candidate = [...batch, recipient];
+    const instructions = await buildMintInstructions(candidate, payer, mint, amount, outputStateTreeInfo, tokenPoolInfo);
+
+    if (fitsInTransaction(instructions, payer)) {
+      batch = candidate;
+    } else if (batch.length === 0) {
+      throw new Error('A single airdrop recipient does not fit in a transaction');
+    } else {
+      batches.push(batch);
+      batch = [recipient];
+    }
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+type ClaimState = 'delivered' | 'inFlight' | 'retry';
+
+// getSignatureStatuses accepts at most 256 signatures per request
+const SIGNATURE_STATUS_BATCH_SIZE = 256;
+
+/**
+ * Works out what happened to claims sent by an earlier run or by the attendee.
+ * A claim whose transaction landed is confirmed, one whose transaction may
+ * still land is left alone, and everything else can be sent again. A
+ * transaction sent without a recorded expiry can't be shown to be dropped, so
+ * it always counts as one that may still land.
+ */
+const reconcileClaims = async (lightConnection: Rpc, claims: ClaimRecord[]): Promise<Map<string, ClaimState>> => {
+  const states = new Map<string, ClaimState>();
+  const unconfirmed = claims.filter(claim => claim.status !== 'confirmed' && claim.transactionId);
+
+  claims
+    .filter(claim => claim.status === 'confirmed')
+    .forEach(claim => states.set(claim.walletAddress, 'delivered'));
+
+  if (unconfirmed.length === 0) {
+    return states;
+  }
+
+  // Recipients in one batch share a signature
+  const signatures = [...new Set(unconfirmed.map(claim => claim.transactionId!))];
+  const statuses = new Map<string, SignatureStatus | null>();
+  for (let i = 0; i < signatures.length; i += SIGNATURE_STATUS_BATCH_SIZE) {
+    const chunk = signatures.slice(i, i + SIGNATURE_STATUS_BATCH_SIZE);
+    const { value } = await lightConnection.getSignatureStatuses(chunk, { searchTransactionHistory: true });
+    chunk.forEach((signature, index) => statuses.set(signature, value[index]));
+  }
+  const blockHeight = await lightConnection.getBlockHeight('confirmed');
+
+  for (const claim of unconfirmed) {
+    const status = statuses.get(claim.transactionId!);
+
+    if (status && !status.err) {
+      if (status.confirmationStatus === 'processed') {
+        states.set(claim.walletAddress, 'inFlight');
+      } else {
+        // Attendees' own claims are settled by their wallet or the claim service
+        if (claim.source === 'airdrop') {
+          await claimService.updateClaimStatus(claim.id!, 'confirmed', claim.transactionId);
+        }
+        states.set(claim.walletAddress, 'delivered');
+      }
+    } else if (!status && (!claim.lastValidBlockHeight || blockHeight <= claim.lastValidBlockHeight)) {
+      states.set(claim.walletAddress, 'inFlight');
+    } else {
+      states.set(claim.walletAddress, 'retry');
+    }
+  }
+
+  return states;
+};
+
+const isValidWallet = (address: string): boolean => {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Airdrops one compressed token to each wallet using Light's compressed mintTo.
+ *
+ * Every recipient gets a ClaimRecord, which holds the signature and expiry of
+ * the transaction that delivers it. Running the airdrop again for the same
+ * list resumes it: recipients whose transaction landed are skipped, and only
+ * those whose transaction failed or expired are sent again, so nobody
+ * receives two tokens.
+ */
+export const airdropCompressedTokens = async (
+  eventId: string,
+  recipients: string[],
+  organizerWallet: string,
+  signTransaction: SignerWalletAdapter['signTransaction'],
+  onProgress?: (progress: AirdropProgress) => void
+): Promise<AirdropResult> => {
+  try {
+    console.log(`[Light Protocol] Airdropping event ${eventId} to ${recipients.length} wallets`);
+
+    const eventData = await eventService.getEventById(eventId);
+    if (!eventData) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (!eventData.mintAddress) {
+      throw new Error(`Event ${eventId} has no token mint`);
+    }
+    if (eventData.creator !== organizerWallet) {
+      throw new Error('Only the event organizer can airdrop its tokens');
+    }
+
+    const result: AirdropResult = { confirmed: [], alreadyDelivered: [], inFlight: [], failed: [], invalid: [] };
+    const wallets = [...new Set(recipients.map(wallet => wallet.trim()).filter(Boolean))];
+    result.invalid = wallets.filter(wallet => !isValidWallet(wallet));
+
+    const lightConnection = getLightConnection();
+    const payer = new PublicKey(organizerWallet);
+    const mint = new PublicKey(eventData.mintAddress);
+    // Every recipient gets one whole token
+    const amount = 10 ** (eventData.decimals || 0);
+
+    // Pick up where an earlier run left off
+    const existingClaims = await claimService.getClaimsByEventId(eventId);
+    const claimStates = await reconcileClaims(lightConnection, existingClaims);
+
+    const pending: PendingRecipient[] = [];
+    for (const wallet of wallets.filter(isValidWallet)) {
+      const state = claimStates.get(wallet);
+      if (state === 'delivered') {
+        result.alreadyDelivered.push(wallet);
+        continue;
+      }
+      if (state === 'inFlight') {
+        result.inFlight.push(wallet);
+        continue;
+      }
+
+      // Attendees' own claims only record their signature once it landed or
+      // failed, so a pending one may still deliver the token
+      const existing = existingClaims.find(claim => claim.walletAddress === wallet);
+      if (existing?.status === 'pending' && existing.source !== 'airdrop') {
+        result.inFlight.push(wallet);
+        continue;
+      }
+
+      const claimId = existing?.id ?? await claimService.saveClaim({
+        eventId,
+        walletAddress: wallet,
+        status: 'pending',
+        source: 'airdrop',
+        createdAt: new Date().toISOString()
+      });
+      pending.push({ wallet, claimId });
+    }
+
+    const progress: AirdropProgress = {
+      total: pending.length,
+      confirmed: 0,
+      failed: 0,
+      remaining: pending.length
+    };
+    onProgress?.({ ...progress });
+
+    if (pending.length === 0) {
+      return result;
+    }
+
+    const outputStateTreeInfo = selectStateTreeInfo(await lightConnection.getStateTreeInfos());
+    const tokenPoolInfo = selectTokenPoolInfo(await getTokenPoolInfos(lightConnection, mint));
+    const batches = await packRecipients(pending, payer, mint, amount, outputStateTreeInfo, tokenPoolInfo);
+
+    console.log(`[Light Protocol] Packed ${pending.length} recipients into ${batches.length} transactions`);
+
+    for (const [index, batch] of batches.entries()) {
+      const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+      const instructions = await buildMintInstructions(batch, payer, mint, amount, outputStateTreeInfo, tokenPoolInfo);
+      const transaction = buildTx(withComputeBudget(instructions), payer, blockhash);
+
+      // Nothing has been sent if the organizer declines, so stop here and
+      // leave the rest of the list for the next run
+      const signedTransaction = await signTransaction(transaction);
+      const signature = bs58.encode(signedTransaction.signatures[0]);
+
+      // Record the signature before sending so a resumed run can tell whether
+      // it landed. A failed claim the airdrop took over becomes an airdrop.
+      const recorded = await Promise.all(batch.map(recipient =>
+        claimService.updateClaim(recipient.claimId, {
+          status: 'pending',
+          source: 'airdrop',
+          transactionId: signature,
+          lastValidBlockHeight,
+          errorMessage: undefined
+        })
+      ));
+      if (recorded.includes(false)) {
+        throw new Error(`Could not record airdrop batch ${index + 1}/${batches.length}, nothing was sent`);
+      }
+
+      try {
+        await sendAndConfirmTx(lightConnection, signedTransaction, undefined, { blockhash, lastValidBlockHeight });
+
+        await Promise.all(batch.map(recipient =>
+          claimService.updateClaimStatus(recipient.claimId, 'confirmed', signature)
+        ));
+        result.confirmed.push(...batch.map(recipient => recipient.wallet));
+        progress.confirmed += batch.length;
+        console.log(`[Light Protocol] Airdrop batch ${index + 1}/${batches.length} confirmed: ${signature}`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[Light Protocol] Airdrop batch ${index + 1}/${batches.length} failed:`, error);
+
+        // Keep the signature so the next run checks whether it landed after all
+        await Promise.all(batch.map(recipient =>
+          claimService.updateClaimStatus(recipient.claimId, 'failed', signature, errorMessage)
+        ));
+        result.failed.push(...batch.map(recipient => recipient.wallet));
+        progress.failed += batch.length;
+      }
+
+      progress.remaining -= batch.length;
+      onProgress?.({ ...progress });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[Light Protocol] Error airdropping tokens:', error);
+    toast.error("Airdrop Failed", {
+      description: error instanceof Error ? error.message : "Failed to airdrop tokens"
+    });
+    throw new Error(`Failed to airdrop tokens: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
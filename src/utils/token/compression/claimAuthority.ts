@@ -0,0 +1,75 @@
+
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { claimAuthorityService } from '@/lib/db';
+import { claimServiceApi, isClaimServiceEnabled } from '@/lib/claimServiceClient';
+import { BufferPolyfill } from '../../buffer';
+
+/**
+ * Every event gets a dedicated claim authority keypair. The event's compressed
+ * supply is compressed to this key rather than the organizer's wallet, so the
+ * authority can co-sign claim transfers without the organizer being online.
+ * The attendee's wallet only acts as fee payer.
+ *
+ * When a claim service is configured the keypair is generated and held by the
+ * service, otherwise it is kept in this browser's IndexedDB.
+ */
+export const createClaimAuthority = async (eventId: string): Promise<PublicKey> => {
+  try {
+    if (isClaimServiceEnabled()) {
+      const { publicKey } = await claimServiceApi.createClaimAuthority(eventId);
+      console.log(`[Light Protocol] Claim service created claim authority ${publicKey} for event ${eventId}`);
+      return new PublicKey(publicKey);
+    }
+
+    const existing = await claimAuthorityService.getClaimAuthorityByEventId(eventId);
+    if (existing) {
+      return new PublicKey(existing.publicKey);
+    }
+
+    const keypair = Keypair.generate();
+
+    await claimAuthorityService.saveClaimAuthority({
+      eventId,
+      publicKey: keypair.publicKey.toBase58(),
+      secretKey: bs58.encode(keypair.secretKey),
+      createdAt: new Date().toISOString()
+    });
+
+    console.log(`[Light Protocol] Created claim authority ${keypair.publicKey.toBase58()} for event ${eventId}`);
+
+    return keypair.publicKey;
+  } catch (error) {
+    console.error('[Light Protocol] Error creating claim authority:', error);
+    throw new Error(`Failed to create claim authority: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Adds the claim authority signature to a claim transaction. A locally held
+ * keypair signs directly; otherwise the claim is submitted to the claim service,
+ * which checks it against the pending claim record before co-signing.
+ */
+export const cosignClaimTransaction = async (
+  eventId: string,
+  claimId: number,
+  transaction: VersionedTransaction
+): Promise<VersionedTransaction> => {
+  const record = await claimAuthorityService.getClaimAuthorityByEventId(eventId);
+  if (record) {
+    transaction.sign([Keypair.fromSecretKey(bs58.decode(record.secretKey))]);
+    return transaction;
+  }
+
+  if (!isClaimServiceEnabled()) {
+    throw new Error(`No claim authority is available for event ${eventId}. Claims must be signed by the event's claim authority.`);
+  }
+
+  const { transaction: signed } = await claimServiceApi.submitClaim(
+    eventId,
+    claimId,
+    BufferPolyfill.from(transaction.serialize()).toString('base64')
+  );
+
+  return VersionedTransaction.deserialize(BufferPolyfill.from(signed, 'base64').bytes);
+};
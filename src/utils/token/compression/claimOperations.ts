@@ -1,26 +1,48 @@
 
 import { PublicKey, Connection, SendTransactionError } from '@solana/web3.js';
 import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import bs58 from 'bs58';
 import { toast } from 'sonner';
-import { transfer } from '@lightprotocol/compressed-token';
-import { eventService, poolService, claimService } from '@/lib/db';
+import { sendAndConfirmTx } from '@lightprotocol/stateless.js';
+import { eventService, poolService, claimService, claimCodeService, ClaimCodeRecord, RotationToken } from '@/lib/db';
 import { getLightConnection } from '@/utils/compressionApi';
-import { createLightSigner } from './signerAdapter';
+import { cosignClaimTransaction } from './claimAuthority';
+import { buildClaimTransferTransaction } from './claimTransfer';
+import { verifyRotationToken } from '@/utils/rotatingQr';
+import { isWalletAllowlisted } from '@/utils/allowlist';
+import { assertClaimWindowOpen } from '@/utils/claimWindow';
+import { SOLD_OUT_MESSAGE } from '@/utils/supply';
+import { canSponsorClaim, estimateSponsoredClaimFee } from '@/utils/feeSponsorship';
+import { getEventSupply } from './supplyOperations';
+
+/**
+ * Extra proof an attendee presents with a claim, depending on how the event
+ * distributes its tokens
+ */
+export interface ClaimOptions {
+  rotationToken?: RotationToken; // From a rotating QR code
+  claimCode?: string; // Single-use code from a printed sheet
+}
 
 /**
  * Claims a compressed token for an event by transferring it to the recipient.
  * 
  * This implementation follows the Light Protocol compressed token airdrop pattern:
  * 1. We check if the claim is valid and hasn't been processed already
- * 2. We create a Light Protocol compatible signer adapter
- * 3. We build and send the transaction to transfer the compressed token to the recipient
+ * 2. We load the event's claim authority, which owns the compressed supply
+ * 3. We build the transfer with the recipient as fee payer, ask the
+ *    recipient's wallet to sign it and have the claim authority co-sign it as
+ *    token owner.
+ *    Events that sponsor fees make the claim authority the fee payer instead,
+ *    so the recipient doesn't need any SOL or a wallet signature.
  * 4. We update the database with the claim record
  */
 export const claimCompressedToken = async (
   eventId: string,
   recipientWallet: string,
   connection: Connection, // Standard connection for queries only
-  signTransaction: SignerWalletAdapter['signTransaction']
+  signTransaction: SignerWalletAdapter['signTransaction'],
+  options: ClaimOptions = {}
 ): Promise<boolean> => {
   try {
     console.log(`[Light Protocol] Claiming compressed token for event ${eventId} to wallet ${recipientWallet}`);
@@ -38,8 +60,34 @@ export const claimCompressedToken = async (
     }
     
     const mintAddress = eventData.mintAddress;
-    // Use creator field from eventData, which is now defined in the EventRecord interface
-    const creatorWallet = eventData.creator;
+    
+    // Claims are only accepted while the event's claim window is open
+    assertClaimWindowOpen(eventData);
+    
+    // Private events only accept wallets on their allowlist
+    if (!isWalletAllowlisted(eventData, recipientWallet)) {
+      throw new Error('This wallet is not on the allowlist for this event');
+    }
+    
+    // Stop cleanly once the supply is gone rather than failing the transfer
+    const supply = await getEventSupply(eventId);
+    if (supply.soldOut) {
+      throw new Error(SOLD_OUT_MESSAGE);
+    }
+    
+    // Sponsored events cover the attendee's fees while the budget lasts
+    const sponsoredFee = estimateSponsoredClaimFee();
+    const isSponsored = eventData.feeSponsorship?.enabled === true &&
+      canSponsorClaim(eventData, await claimService.getClaimsByEventId(eventId), sponsoredFee);
+    if (eventData.feeSponsorship?.enabled && !isSponsored) {
+      console.warn(`[Light Protocol] Fee budget for event ${eventId} is spent, the recipient pays this claim's fees`);
+    }
+    
+    // Events with rotating QR codes only accept a current, organizer-issued nonce
+    if (eventData.rotatingQr?.enabled) {
+      const previousClaims = await claimService.getClaimsByEventId(eventId);
+      verifyRotationToken(eventId, eventData.creator, eventData.rotatingQr, options.rotationToken, previousClaims);
+    }
     
     // Get the token pool data - critical for decompression
     const poolData = await poolService.getPoolByMintAddress(mintAddress);
@@ -47,16 +95,35 @@ export const claimCompressedToken = async (
       throw new Error(`Token pool for ${mintAddress} not found. Please ensure the event has a token pool created.`);
     }
     
+    // Events with printed codes need one to be redeemed. Redeeming is atomic,
+    // so each code yields at most one claim.
+    let claimCode: ClaimCodeRecord | null = null;
+    if (eventData.requiresClaimCode) {
+      claimCode = await claimCodeService.redeemClaimCode(eventId, options.claimCode, recipientWallet);
+    }
+    
     // Record the pending claim before executing the transaction
-    const claimId = await claimService.saveClaim({
-      eventId,
-      walletAddress: recipientWallet,
-      status: 'pending',
-      createdAt: new Date().toISOString()
-    });
+    let claimId: number;
+    try {
+      claimId = await claimService.saveClaim({
+        eventId,
+        walletAddress: recipientWallet,
+        status: 'pending',
+        rotationToken: options.rotationToken,
+        claimCodeHash: claimCode?.codeHash,
+        sponsoredFeeLamports: isSponsored ? sponsoredFee : undefined,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      if (claimCode) {
+        await claimCodeService.releaseClaimCode(eventId, claimCode.codeHash);
+      }
+      throw error;
+    }
     
     console.log(`[Light Protocol] Initiating transfer of 1 token to ${recipientWallet}`);
     
+    let sentSignature: string | undefined;
     try {
       // Convert string addresses to PublicKey objects
       const mintPubkey = new PublicKey(mintAddress);
@@ -65,43 +132,35 @@ export const claimCompressedToken = async (
       // Get Light Protocol connection with proper Rpc type
       const lightConnection = getLightConnection();
       
-      // Create Light Protocol compatible signer for the recipient wallet
-      const recipientSigner = createLightSigner(recipientPubkey, signTransaction);
+      // The claim authority owns the compressed supply and co-signs every claim
+      if (!eventData.claimAuthority) {
+        throw new Error(`Event ${eventId} has no claim authority. Please recreate the event's token pool.`);
+      }
+      const claimAuthority = new PublicKey(eventData.claimAuthority);
+      const feePayer = isSponsored ? claimAuthority : recipientPubkey;
       
       console.log('[Light Protocol] Preparing transfer transaction...');
       
-      // Use transfer for claiming compressed tokens
-      // This transfers compressed tokens directly to the recipient's wallet
-      const transferTxId = await transfer(
-        lightConnection, // Use Light connection with proper Rpc type
-        recipientSigner, // Recipient is the signer (pays fees)
-        mintPubkey,      // Mint address
-        1,               // Amount to transfer (1 token)
-        createStatelessSigner(new PublicKey(creatorWallet)), // Source/creator wallet (owner of tokens)
-        recipientPubkey  // Destination address (recipient)
+      const { transaction } = await buildClaimTransferTransaction(
+        lightConnection,
+        mintPubkey,
+        claimAuthority,
+        recipientPubkey,
+        feePayer,  // Recipient pays the fee unless the event sponsors it
+        eventData.decimals || 0
       );
       
-      console.log('[Light Protocol] Transfer transaction sent with ID:', transferTxId);
+      // The recipient signs first as fee payer, unless the event sponsors the
+      // fee, then the claim authority signs as token owner (and as fee payer
+      // when sponsored)
+      const walletSignedTransaction = isSponsored ? transaction : await signTransaction(transaction);
+      const signedTransaction = await cosignClaimTransaction(eventId, claimId, walletSignedTransaction);
       
-      // Wait for confirmation with proper error handling - use the standard connection for confirmation
-      try {
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-        
-        const status = await connection.confirmTransaction({
-          signature: transferTxId,
-          blockhash: blockhash,
-          lastValidBlockHeight: lastValidBlockHeight
-        }, 'confirmed');
-        
-        if (status.value.err) {
-          throw new Error(`Transaction confirmed but failed: ${JSON.stringify(status.value.err)}`);
-        }
-        
-        console.log(`[Light Protocol] Token transfer confirmed with txId: ${transferTxId}`);
-      } catch (confirmError) {
-        console.warn("[Light Protocol] Error confirming transaction, but continuing:", confirmError);
-        // We'll continue even if confirmation fails - the transaction might still be valid
-      }
+      // A sent transaction costs its fee even if it fails, so keep its signature
+      sentSignature = bs58.encode(signedTransaction.signatures[0]);
+      const transferTxId = await sendAndConfirmTx(lightConnection, signedTransaction);
+      
+      console.log(`[Light Protocol] Token transfer confirmed with txId: ${transferTxId}`);
       
       // Update claim record with success status
       await claimService.updateClaimStatus(claimId, 'confirmed', transferTxId);
@@ -124,15 +183,20 @@ export const claimCompressedToken = async (
         errorMessage = error.message;
         
         // Special handling for common token transfer errors
-        if (errorMessage.includes('insufficient funds')) {
+        if (errorMessage.includes('insufficient funds') && isSponsored) {
+          errorMessage = "The organizer's fee account has run out of SOL. Please let the organizer know.";
+        } else if (errorMessage.includes('insufficient funds')) {
           errorMessage = "Insufficient SOL in your wallet to claim this token. Please add more SOL to your wallet.";
         } else if (errorMessage.includes('no tokens available')) {
-          errorMessage = "No tokens available for claiming. All tokens may have been claimed already.";
+          errorMessage = SOLD_OUT_MESSAGE;
         }
       }
       
-      // Update claim record with failure status
-      await claimService.updateClaimStatus(claimId, 'failed', undefined, errorMessage);
+      // Update claim record with failure status and hand the code back
+      await claimService.updateClaimStatus(claimId, 'failed', sentSignature, errorMessage);
+      if (claimCode) {
+        await claimCodeService.releaseClaimCode(eventId, claimCode.codeHash);
+      }
       
       toast.error("Error Claiming Token", {
         description: errorMessage
@@ -148,12 +212,3 @@ export const claimCompressedToken = async (
     throw error; // Let the caller handle this error
   }
 };
-
-// Helper function to create a stateless signer without needing to import it
-// This provides a Signer-compatible object that only has the publicKey
-export const createStatelessSigner = (address: PublicKey) => {
-  return {
-    publicKey: address,
-    secretKey: null as Uint8Array | null
-  };
-};
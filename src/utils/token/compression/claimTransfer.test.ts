@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { bn } from '@lightprotocol/stateless.js';
+import { verifyClaimTransferTransaction } from './claimTransfer';
+import {
+  CompressedTokenInstruction,
+  decodeCompressedTokenInstruction,
+  encodeCompressedTokenInstruction
+} from './programs';
+
+interface InstructionFixture {
+  programId: string;
+  keys: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string; // base64
+}
+
+const fixtures: Record<string, InstructionFixture> = JSON.parse(
+  readFileSync(new URL('./__fixtures__/compressedTokenInstructions.json', import.meta.url), 'utf8')
+);
+
+const PAYER = new PublicKey('AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9');
+const MINT = new PublicKey('9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu');
+const RECIPIENT = new PublicKey('GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse');
+const AUTHORITY = new PublicKey('EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1');
+
+// The recorded transfer sends 1 raw unit, i.e. one token of a 0-decimal mint
+const expected = { mint: MINT, claimAuthority: AUTHORITY, recipient: RECIPIENT, decimals: 0 };
+
+const transferInstruction = () => {
+  const { programId, keys, data } = fixtures.transfer;
+  return new TransactionInstruction({
+    programId: new PublicKey(programId),
+    keys: keys.map(key => ({ ...key, pubkey: new PublicKey(key.pubkey) })),
+    data: Buffer.from(data, 'base64')
+  });
+};
+
+// Decodes the recorded transfer, lets the test change its outputs and
+// encodes it again, the way a tampered claim transaction would arrive
+const tamperedTransfer = (tamper: (outputs: { owner: PublicKey; amount: ReturnType<typeof bn> }[]) => void) => {
+  const decoded = decodeCompressedTokenInstruction(transferInstruction());
+  if (decoded?.type !== CompressedTokenInstruction.Transfer) throw new Error('Expected transfer');
+  tamper(decoded.data.outputCompressedAccounts);
+  return encodeCompressedTokenInstruction(decoded);
+};
+
+const toTransaction = (instructions: TransactionInstruction[]) => new VersionedTransaction(
+  new TransactionMessage({
+    payerKey: PAYER,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: 500_000 }), ...instructions]
+  }).compileToV0Message()
+);
+
+describe('verifyClaimTransferTransaction', () => {
+  it('accepts one token to the claiming wallet with the change back to the authority', () => {
+    expect(() => verifyClaimTransferTransaction(toTransaction([transferInstruction()]), expected)).not.toThrow();
+  });
+
+  it('refuses a tampered amount', () => {
+    const transfer = tamperedTransfer(outputs => {
+      outputs[0].amount = bn(0);
+      outputs[1].amount = bn(10);
+    });
+    expect(() => verifyClaimTransferTransaction(toTransaction([transfer]), expected))
+      .toThrow(/exactly one token/);
+  });
+
+  it('refuses a tampered recipient', () => {
+    const transfer = tamperedTransfer(outputs => {
+      outputs[1].owner = PAYER;
+    });
+    expect(() => verifyClaimTransferTransaction(toTransaction([transfer]), expected))
+      .toThrow(/exactly one token/);
+  });
+
+  it('refuses change that goes to someone else', () => {
+    const transfer = tamperedTransfer(outputs => {
+      outputs[0].owner = PAYER;
+    });
+    expect(() => verifyClaimTransferTransaction(toTransaction([transfer]), expected))
+      .toThrow(/change must go back/);
+  });
+
+  it('refuses a transfer of another mint', () => {
+    const transaction = toTransaction([transferInstruction()]);
+    expect(() => verifyClaimTransferTransaction(transaction, { ...expected, mint: PAYER }))
+      .toThrow(/event's mint/);
+  });
+
+  it('refuses instructions of other programs', () => {
+    const drain = SystemProgram.transfer({ fromPubkey: AUTHORITY, toPubkey: PAYER, lamports: 1 });
+    expect(() => verifyClaimTransferTransaction(toTransaction([transferInstruction(), drain]), expected))
+      .toThrow(/unexpected instructions/);
+  });
+
+  it('refuses a second transfer', () => {
+    const transaction = toTransaction([transferInstruction(), transferInstruction()]);
+    expect(() => verifyClaimTransferTransaction(transaction, expected)).toThrow(/exactly one/);
+  });
+});
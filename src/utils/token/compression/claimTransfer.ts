@@ -0,0 +1,142 @@
+
+import { PublicKey, ComputeBudgetProgram, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { CompressedTokenProgram, selectMinCompressedTokenAccountsForTransfer } from '@lightprotocol/compressed-token';
+import { bn, buildTx, Rpc } from '@lightprotocol/stateless.js';
+import { CompressedTokenInstruction, decodeCompressedTokenInstruction } from './programs';
+
+/**
+ * Builds the transfer behind every claim: one whole token, scaled by the
+ * mint's decimals, from the claim authority's compressed supply to the
+ * recipient. The claim authority still
+ * has to sign it as token owner, and so does the fee payer.
+ *
+ * Only package imports, so the claim service can build the same transaction
+ * for Solana Pay requests.
+ */
+export const buildClaimTransferTransaction = async (
+  lightConnection: Rpc,
+  mint: PublicKey,
+  claimAuthority: PublicKey,
+  recipient: PublicKey,
+  feePayer: PublicKey,
+  decimals: number
+): Promise<{ transaction: VersionedTransaction; blockhash: string; lastValidBlockHeight: number }> => {
+  const sourceAccounts = await lightConnection.getCompressedTokenAccountsByOwner(
+    claimAuthority,
+    { mint }
+  );
+  
+  if (sourceAccounts.items.length === 0) {
+    throw new Error('no tokens available for this event');
+  }
+  
+  const amount = bn(10).pow(bn(decimals));
+  const [inputAccounts] = selectMinCompressedTokenAccountsForTransfer(
+    sourceAccounts.items,
+    amount
+  );
+  
+  const proof = await lightConnection.getValidityProofV0(
+    inputAccounts.map(account => ({
+      hash: account.compressedAccount.hash,
+      tree: account.compressedAccount.treeInfo.tree,
+      queue: account.compressedAccount.treeInfo.queue
+    }))
+  );
+  
+  const transferInstruction = await CompressedTokenProgram.transfer({
+    payer: feePayer,
+    inputCompressedTokenAccounts: inputAccounts,
+    toAddress: recipient,
+    amount,                           // Amount to transfer (1 token)
+    recentInputStateRootIndices: proof.rootIndices,
+    recentValidityProof: proof.compressedProof
+  });
+  
+  const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+  const transaction = buildTx(
+    [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 500_000 }),
+      transferInstruction
+    ],
+    feePayer,
+    blockhash
+  );
+  
+  return { transaction, blockhash, lastValidBlockHeight };
+};
+
+export interface ExpectedClaimTransfer {
+  mint: PublicKey;
+  claimAuthority: PublicKey;
+  recipient: PublicKey;
+  decimals: number;
+}
+
+/**
+ * Checks that a claim transaction is exactly the transfer
+ * `buildClaimTransferTransaction` builds before the claim authority signs it:
+ * one compressed transfer of one whole token of the event's mint to the
+ * recipient, with any change going back to the claim authority. Compute
+ * budget instructions are the only others allowed. Throws with the reason
+ * otherwise.
+ */
+export const verifyClaimTransferTransaction = (
+  transaction: VersionedTransaction,
+  { mint, claimAuthority, recipient, decimals }: ExpectedClaimTransfer
+): void => {
+  const { message } = transaction;
+  if (message.addressTableLookups.length > 0) {
+    throw new Error('Claim transaction must not use address lookup tables');
+  }
+
+  const instructions = message.compiledInstructions.map(ix => new TransactionInstruction({
+    programId: message.staticAccountKeys[ix.programIdIndex],
+    keys: ix.accountKeyIndexes.map(index => ({
+      pubkey: message.staticAccountKeys[index],
+      isSigner: message.isAccountSigner(index),
+      isWritable: message.isAccountWritable(index)
+    })),
+    data: Buffer.from(ix.data)
+  }));
+
+  const others = instructions.filter(ix =>
+    !ix.programId.equals(ComputeBudgetProgram.programId) &&
+    !ix.programId.equals(CompressedTokenProgram.programId)
+  );
+  if (others.length > 0) {
+    throw new Error('Claim transaction contains unexpected instructions');
+  }
+
+  let transfers;
+  try {
+    transfers = instructions.map(decodeCompressedTokenInstruction).filter(ix => ix !== null);
+  } catch {
+    throw new Error('Claim transaction contains an unknown compressed-token instruction');
+  }
+  const [transfer] = transfers;
+  if (transfers.length !== 1 || transfer.type !== CompressedTokenInstruction.Transfer) {
+    throw new Error('Claim transaction must contain exactly one compressed token transfer');
+  }
+
+  if (!transfer.data.mint.equals(mint)) {
+    throw new Error("Claim transfer is not for the event's mint");
+  }
+  if (!transfer.accounts.authority.pubkey.equals(claimAuthority) || transfer.data.delegatedTransfer !== null) {
+    throw new Error("Claim transfer must spend the claim authority's own tokens");
+  }
+
+  const outputs = transfer.data.outputCompressedAccounts;
+  if (outputs.some(output => (output.lamports !== null && !output.lamports.isZero()) || output.tlv !== null)) {
+    throw new Error('Claim transfer outputs must only carry tokens');
+  }
+
+  const received = outputs.filter(output => output.owner.equals(recipient));
+  const change = outputs.filter(output => output.owner.equals(claimAuthority));
+  if (received.length !== 1 || !received[0].amount.eq(bn(10).pow(bn(decimals)))) {
+    throw new Error('Claim transfer must send exactly one token to the claiming wallet');
+  }
+  if (received.length + change.length !== outputs.length || change.length > 1) {
+    throw new Error('Claim transfer change must go back to the claim authority');
+  }
+};
@@ -1,109 +1,114 @@
 
-import { 
-  PublicKey, 
-  TransactionSignature 
+import {
+  PublicKey,
+  ComputeBudgetProgram,
+  TransactionSignature
 } from '@solana/web3.js';
-import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
-import { compress } from '@lightprotocol/compressed-token';
+import { CompressedTokenProgram, getTokenPoolInfos, selectTokenPoolInfo, TokenPoolInfo } from '@lightprotocol/compressed-token';
+import { bn, selectStateTreeInfo, Rpc } from '@lightprotocol/stateless.js';
 import { toast } from 'sonner';
-import { TOKEN_2022_PROGRAM_ID } from '../types';
-import { createLightSigner } from './signerAdapter';
 import { getLightConnection } from '@/utils/compressionApi';
+import { buildVersionedTransaction } from '../transaction/tokenTransactionUtils';
+import { BatchTransaction, BatchWallet, sendTransactionBatch } from '../transaction/transactionBatch';
+
+export interface CompressedSupplyMint {
+  mintAddress: string;
+  amount: number; // Whole tokens
+  decimals: number;
+  ownerAddress: string; // Mint authority, pays the fees
+  destinationAddress: string; // The event's claim authority
+}
+
+export interface PreparedSupplyMint extends BatchTransaction {
+  stateTreeAddress: string; // State tree the supply is minted into
+}
+
+/**
+ * Prepares the transaction that mints an event's supply straight into
+ * compressed form, so it can be approved together with the rest of a flow.
+ *
+ * The organizer signs as mint authority and Light's mintTo mints `amount`
+ * whole tokens, scaled by `decimals`, through the event's token pool to the
+ * claim authority. Pass `tokenPoolInfo` when the pool is created earlier in
+ * the same batch and can't be read from chain yet. The step carries the state
+ * tree the supply is minted into, so it can be recorded with the pool.
+ */
+export const prepareCompressedSupplyMint = async (
+  lightConnection: Rpc,
+  { mintAddress, amount, decimals, ownerAddress, destinationAddress }: CompressedSupplyMint,
+  tokenPoolInfo?: TokenPoolInfo
+): Promise<PreparedSupplyMint> => {
+  const mintPubkey = new PublicKey(mintAddress);
+  const ownerPubkey = new PublicKey(ownerAddress);
+  const rawAmount = bn(amount).mul(bn(10).pow(bn(decimals)));
+
+  const outputStateTreeInfo = selectStateTreeInfo(await lightConnection.getStateTreeInfos());
+  const poolInfo = tokenPoolInfo ?? selectTokenPoolInfo(await getTokenPoolInfos(lightConnection, mintPubkey));
+
+  const mintInstruction = await CompressedTokenProgram.mintTo({
+    feePayer: ownerPubkey,
+    authority: ownerPubkey,
+    mint: mintPubkey,
+    toPubkey: new PublicKey(destinationAddress),
+    amount: rawAmount,
+    outputStateTreeInfo,
+    tokenPoolInfo: poolInfo
+  });
+
+  const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+  return {
+    description: 'mint the compressed supply',
+    transaction: buildVersionedTransaction(
+      [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }),
+        mintInstruction
+      ],
+      ownerPubkey,
+      blockhash
+    ),
+    blockhash,
+    lastValidBlockHeight,
+    stateTreeAddress: outputStateTreeInfo.tree.toBase58()
+  };
+};
 
 /**
- * Compresses tokens for an event after pool creation
+ * Mints an event's supply straight into compressed form on its own, for an
+ * event whose token pool already exists. No token account is needed, so
+ * there's nothing to compress afterwards.
  */
-export const compressTokens = async (
-  mintAddress: string, 
-  amount: number,
-  ownerAddress: string,
-  connection: any, // Standard connection used only for queries
-  signTransaction: SignerWalletAdapter['signTransaction']
-): Promise<TransactionSignature> => {
+export const mintCompressedSupply = async (
+  supplyMint: CompressedSupplyMint,
+  wallet: BatchWallet
+): Promise<{ transactionId: TransactionSignature, stateTreeAddress: string }> => {
   try {
-    console.log(`[Light Protocol] Compressing ${amount} tokens for mint ${mintAddress}`);
-    
-    // Convert addresses to PublicKey
-    const mintPubkey = new PublicKey(mintAddress);
-    const ownerPubkey = new PublicKey(ownerAddress);
-    
-    // Create Light Protocol compatible signer
-    const lightSigner = createLightSigner(ownerPubkey, signTransaction);
-    
-    console.log('[Light Protocol] Starting token compression process');
-    
-    // Get Light Protocol connection with proper Rpc type
+    console.log(`[Light Protocol] Minting ${supplyMint.amount} compressed tokens for mint ${supplyMint.mintAddress}`);
+
     const lightConnection = getLightConnection();
-    
-    // Get token account info - we need the actual ATA where tokens exist
-    // Note: We'll still use the standard connection for queries
-    const ataAccounts = await connection.getTokenAccountsByOwner(
-      ownerPubkey, 
-      { mint: mintPubkey }
-    );
-    
-    if (ataAccounts.value.length === 0) {
-      throw new Error('No token account found for this mint. Please ensure tokens are minted before compressing.');
-    }
-    
-    // Use the first token account found
-    const tokenAccountPubkey = ataAccounts.value[0].pubkey;
-    
-    console.log(`[Light Protocol] Found token account: ${tokenAccountPubkey.toString()}`);
-    
-    // Call Light Protocol to compress the tokens using lightConnection with proper Rpc type
-    const compressTxid = await compress(
-      lightConnection,    // Use Light connection with proper Rpc type 
-      lightSigner,        // Owner of tokens (signer)
-      mintPubkey,         // Mint address
-      amount,             // Amount to compress
-      lightSigner,        // Owner (signer)
-      tokenAccountPubkey, // Source token account (ATA)
-      ownerPubkey         // Destination for compressed tokens
-    );
-    
-    console.log(`[Light Protocol] Compression transaction sent: ${compressTxid}`);
-    
-    // Wait for confirmation using standard connection
-    try {
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-      
-      const confirmation = await connection.confirmTransaction({
-        signature: compressTxid,
-        blockhash,
-        lastValidBlockHeight
-      }, 'confirmed');
-      
-      if (confirmation.value.err) {
-        console.warn(`[Light Protocol] Compression transaction confirmed but with error: ${JSON.stringify(confirmation.value.err)}`);
-      } else {
-        console.log('[Light Protocol] Compression transaction confirmed successfully');
-      }
-    } catch (confirmError) {
-      console.warn('[Light Protocol] Error confirming compression transaction:', confirmError);
-      // Continue even if confirmation checks fail, transaction might still be valid
-    }
-    
-    return compressTxid;
+    const step = await prepareCompressedSupplyMint(lightConnection, supplyMint);
+    const [mintTxId] = await sendTransactionBatch(lightConnection, wallet, [step]);
+
+    console.log(`[Light Protocol] Compressed supply minted into tree ${step.stateTreeAddress}: ${mintTxId}`);
+    return { transactionId: mintTxId, stateTreeAddress: step.stateTreeAddress };
   } catch (error) {
-    console.error('[Light Protocol] Error compressing tokens:', error);
-    
-    let errorMessage = 'Failed to compress tokens';
+    console.error('[Light Protocol] Error minting compressed supply:', error);
+
+    let errorMessage = 'Failed to mint the event supply';
     if (error instanceof Error) {
       errorMessage = error.message;
-      
-      // Improve error message for common compression issues
+
+      // Improve error message for common minting issues
       if (errorMessage.includes('insufficient funds')) {
-        errorMessage = 'Insufficient SOL in wallet to compress tokens. Please add more SOL.';
-      } else if (errorMessage.includes('InvalidOwner')) {
-        errorMessage = 'Invalid ownership of tokens. Please ensure you own the tokens you are trying to compress.';
+        errorMessage = 'Insufficient SOL in wallet to mint tokens. Please add more SOL.';
+      } else if (errorMessage.includes('InvalidAuthorityMint') || errorMessage.includes('owner does not match')) {
+        errorMessage = 'Only the mint authority can mint the event supply. Please connect the organizer wallet.';
       }
     }
-    
-    toast.error('Token Compression Failed', {
+
+    toast.error('Token Minting Failed', {
       description: errorMessage
     });
-    
-    throw new Error(`Failed to compress tokens: ${errorMessage}`);
+
+    throw new Error(`Failed to mint compressed supply: ${errorMessage}`);
   }
 };
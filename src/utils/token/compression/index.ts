@@ -3,15 +3,30 @@
 export * from './programs';
 export * from './poolOperations';
 export * from './claimOperations';
+export * from './claimTransfer';
 export * from './tokenOperations';
 export * from './accountOperations';
 
 // Export the signer adapters
 export { createLightSigner } from './signerAdapter';
-export { createStatelessSigner } from './claimOperations';
 
-// Export compression operations
-export { compressTokens } from './compressionOperations';
+// Export the claim authority helpers
+export * from './claimAuthority';
+
+// Export the organizer airdrop
+export * from './airdropOperations';
+
+// Export supply accounting
+export * from './supplyOperations';
+
+// Export the event setup check
+export * from './setupOperations';
+
+// Export fee sponsorship funding
+export * from './sponsorOperations';
+
+// Export the compressed supply mint
+export * from './compressionOperations';
 
 // Explicitly export transfer from @lightprotocol/compressed-token
 export { transfer } from '@lightprotocol/compressed-token';
@@ -2,210 +2,149 @@
 import { 
   Connection, 
   PublicKey, 
-  Transaction,
-  ComputeBudgetProgram,
-  Keypair
+  ComputeBudgetProgram
 } from '@solana/web3.js';
-import { createTokenPool as lightCreateTokenPool } from '@lightprotocol/compressed-token';
-import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import { CompressedTokenProgram, TokenPoolInfo } from '@lightprotocol/compressed-token';
+import { bn } from '@lightprotocol/stateless.js';
+import { unpackAccount } from '@solana/spl-token';
 import { TOKEN_2022_PROGRAM_ID, TokenPoolResult } from '../types';
 import { toast } from 'sonner';
-import { LightSignerAdapter } from './signerAdapter';
-import { poolService } from '@/lib/db';
-import { getLightConnection } from '@/utils/compressionApi';
+import { eventService, poolService, EventRecord } from '@/lib/db';
+import { buildVersionedTransaction } from '../transaction/tokenTransactionUtils';
+import { BatchTransaction, BatchWallet, sendTransactionBatch } from '../transaction/transactionBatch';
+import { getSupplyStateTree } from './supplyOperations';
 
-// Define more specific response types from Light Protocol
-interface PoolResponse {
-  signature?: string;
-  txid?: string;
-  transactionId?: string;
-  toString?: () => string;
-  [key: string]: any; // For other possible properties
+export interface TokenPoolState {
+  poolAddress: string;
+  exists: boolean;
+  balance: number; // Raw units, 0 when the pool doesn't exist
 }
 
+const SIGNATURE_PAGE_SIZE = 1000;
+// A pool busier than this is only recorded without its creation signature
+const MAX_SIGNATURE_PAGES = 5;
+
+/**
+ * Reads the token pool of a mint from chain. Its address is derived from the
+ * mint, so this doesn't depend on anything recorded about the pool.
+ */
+export const getTokenPoolState = async (mint: PublicKey, connection: Connection): Promise<TokenPoolState> => {
+  const poolAddress = CompressedTokenProgram.deriveTokenPoolPda(mint);
+  const account = await connection.getAccountInfo(poolAddress);
+
+  return {
+    poolAddress: poolAddress.toBase58(),
+    exists: !!account,
+    balance: account ? Number(unpackAccount(poolAddress, account, TOKEN_2022_PROGRAM_ID).amount) : 0
+  };
+};
+
+/**
+ * The first token pool of a mint, as it will be once created. Lets later
+ * steps of the same batch build against a pool that doesn't exist yet.
+ */
+export const getPendingTokenPoolInfo = (mint: PublicKey): TokenPoolInfo => ({
+  mint,
+  tokenPoolPda: CompressedTokenProgram.deriveTokenPoolPda(mint),
+  tokenProgram: TOKEN_2022_PROGRAM_ID,
+  isInitialized: true,
+  balance: bn(0),
+  poolIndex: 0
+});
+
+/**
+ * Prepares the transaction that registers a mint with Light Protocol
+ */
+export const prepareTokenPoolCreation = async (
+  mint: PublicKey,
+  payer: PublicKey,
+  connection: Connection
+): Promise<BatchTransaction> => {
+  const createPoolInstruction = await CompressedTokenProgram.createTokenPool({
+    feePayer: payer,
+    mint,
+    tokenProgramId: TOKEN_2022_PROGRAM_ID
+  });
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  return {
+    description: 'create the token pool',
+    transaction: buildVersionedTransaction(
+      [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 400000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 50000 }),
+        createPoolInstruction
+      ],
+      payer,
+      blockhash
+    ),
+    blockhash,
+    lastValidBlockHeight
+  };
+};
+
+/**
+ * Creates the token pool for an event's mint.
+ *
+ * `followUps` are transactions that build on the pool, e.g. minting the
+ * supply. They are signed in the same wallet approval and sent once the pool
+ * is confirmed. The pool stands even if one of them fails, so that doesn't
+ * fail the pool creation: follow-ups report their own success through
+ * `onConfirmed`.
+ */
 export async function createTokenPool(
   mintAddress: string,
   walletPublicKey: string,
   connection: Connection, // Standard connection for queries
-  signTransaction: SignerWalletAdapter['signTransaction']
+  wallet: BatchWallet,
+  followUps: BatchTransaction[] = []
 ): Promise<TokenPoolResult> {
   console.log(`[Light Protocol] Creating token pool for mint: ${mintAddress}`);
   const mint = new PublicKey(mintAddress);
   
   try {
-    // Check if a pool already exists for this mint to avoid duplicates
-    const existingPool = await poolService.getPoolByMintAddress(mintAddress);
-    if (existingPool) {
-      console.log(`[Light Protocol] Pool already exists for mint ${mintAddress}, returning existing data`);
-      return {
-        transactionId: existingPool.transactionId,
-        merkleRoot: existingPool.merkleRoot || 'existing-merkle-root',
-        poolAddress: existingPool.poolAddress || 'existing-pool-address',
-        stateTreeAddress: existingPool.stateTreeAddress || existingPool.poolAddress || 'existing-state-tree'
-      };
+    // The pool may have landed without being recorded, e.g. when the tab
+    // closed right after, so the chain decides whether it exists
+    const pool = await getTokenPoolState(mint, connection);
+    if (pool.exists) {
+      console.log(`[Light Protocol] Pool for mint ${mintAddress} is already on chain, recording it`);
+      const landedPool = await recordLandedPool(mintAddress, pool, connection);
+      await sendFollowUps(connection, wallet, followUps);
+      return landedPool;
     }
     
-    // Create a signer adapter that wraps the wallet's signTransaction method
-    const lightSigner = new LightSignerAdapter(walletPublicKey, signTransaction);
-    
-    // Set higher compute budget for compression operations
-    const computeBudgetIx = ComputeBudgetProgram.setComputeUnitLimit({
-      units: 400000
-    });
-    
-    // Set priority fee to improve confirmation chances
-    const priorityFeeIx = ComputeBudgetProgram.setComputeUnitPrice({
-      microLamports: 50000
-    });
-    
-    // We'll manually construct the transaction and then use Light's function
-    const tx = new Transaction();
-    tx.add(computeBudgetIx);
-    tx.add(priorityFeeIx);
-    
-    // For better debugging
-    console.log("[Light Protocol] Pre-pool creation setup complete");
     console.log("[Light Protocol] Mint address:", mint.toString());
     console.log("[Light Protocol] Using wallet public key:", walletPublicKey);
 
     // Create the token pool with proper error handling
+    let poolResult: TokenPoolResult | null = null;
     try {
-      // Get the current blockhash for our transaction
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-      
-      // Get the specialized Light Protocol connection with correct Rpc type
-      const lightConnection = getLightConnection();
-      
-      console.log("[Light Protocol] Calling Light Protocol SDK to create token pool...");
-      
-      // Call Light Protocol to create token pool with the correct Rpc connection type
-      const poolResponse = await lightCreateTokenPool(
-        lightConnection,  // Use Light connection with proper Rpc type
-        lightSigner,
-        mint,
-        undefined, // fee payer defaults to lightSigner
-        TOKEN_2022_PROGRAM_ID // specify Token-2022 program
-      );
-      
-      console.log("[Light Protocol] Raw pool creation response:", 
-        poolResponse === null ? "NULL" : 
-        typeof poolResponse === 'object' ? JSON.stringify(poolResponse) : 
-        String(poolResponse)
-      );
-      
-      // Extract transaction ID from the response with safer type handling
-      let txId: string = "unknown-transaction-id";
-      let poolAddress: string = "unknown-pool-address";
-      let stateTreeAddress: string = "unknown-state-tree-address";
-      let merkleRoot: string = "unknown-merkle-root";
-      
-      // Comprehensive null/undefined check
-      if (!poolResponse) {
-        console.warn("[Light Protocol] Received null/undefined response from Light Protocol");
-        // Check if the pool might already exist
-        txId = "possible-existing-pool"; 
-      } else {
-        // Handle different response formats from the Light Protocol
-        console.log("[Light Protocol] Response type:", typeof poolResponse);
+      const poolCreation = await prepareTokenPoolCreation(mint, new PublicKey(walletPublicKey), connection);
+      poolCreation.onConfirmed = async (signature) => {
+        console.log("[Light Protocol] Pool transaction confirmed:", signature);
+        poolResult = {
+          transactionId: signature,
+          poolAddress: pool.poolAddress,
+          poolBalance: 0
+        };
         
-        if (typeof poolResponse === 'string') {
-          // Direct string response (likely a transaction ID)
-          txId = poolResponse;
-          console.log("[Light Protocol] Pool response is a string:", txId);
-          
-        } else if (typeof poolResponse === 'object') {
-          // Response is an object, try to extract the transaction ID
-          const response = poolResponse as PoolResponse;
-          console.log("[Light Protocol] Pool response properties:", 
-                     Object.keys(response).length > 0 
-                     ? Object.keys(response).join(", ") 
-                     : "empty object");
-          
-          // Safely extract properties with logging
-          if (response.signature) {
-            console.log("[Light Protocol] Found signature property:", response.signature);
-            txId = response.signature;
-          } else if (response.txid) {
-            console.log("[Light Protocol] Found txid property:", response.txid);
-            txId = response.txid;
-          } else if (response.transactionId) {
-            console.log("[Light Protocol] Found transactionId property:", response.transactionId);
-            txId = response.transactionId;
-          } else if (response.toString && typeof response.toString === 'function') {
-            // Last resort - try toString() but verify it doesn't return [object Object]
-            const stringValue = response.toString();
-            if (stringValue && stringValue !== '[object Object]') {
-              console.log("[Light Protocol] Using toString() result:", stringValue);
-              txId = stringValue;
-            }
-          }
-          
-          // Try to extract pool address and other data if available
-          if ('poolAddress' in response && response.poolAddress) {
-            poolAddress = typeof response.poolAddress === 'string' 
-              ? response.poolAddress 
-              : response.poolAddress.toString();
-            console.log("[Light Protocol] Found poolAddress:", poolAddress);
-          }
-          
-          if ('stateTreeAddress' in response && response.stateTreeAddress) {
-            stateTreeAddress = typeof response.stateTreeAddress === 'string'
-              ? response.stateTreeAddress
-              : response.stateTreeAddress.toString();
-            console.log("[Light Protocol] Found stateTreeAddress:", stateTreeAddress);
-          }
-          
-          if ('merkleRoot' in response && response.merkleRoot) {
-            merkleRoot = typeof response.merkleRoot === 'string'
-              ? response.merkleRoot
-              : response.merkleRoot.toString();
-            console.log("[Light Protocol] Found merkleRoot:", merkleRoot);
-          }
-        }
-      }
-      
-      console.log("[Light Protocol] Final extracted txId:", txId);
-      
-      // Wait for confirmation with proper error handling - only if we have a valid txId
-      if (txId && txId !== "unknown-transaction-id" && txId !== "possible-existing-pool") {
-        try {
-          console.log("[Light Protocol] Confirming transaction:", txId);
-          const confirmationResult = await connection.confirmTransaction({
-            signature: txId,
-            blockhash,
-            lastValidBlockHeight
-          });
-          
-          if (confirmationResult.value.err) {
-            console.warn(`[Light Protocol] Pool creation confirmed but with errors: ${JSON.stringify(confirmationResult.value.err)}`);
-          } else {
-            console.log("[Light Protocol] Pool transaction confirmed successfully");
-          }
-        } catch (confirmError) {
-          console.warn("[Light Protocol] Error confirming transaction, but continuing:", confirmError);
-          // We'll continue even if confirmation fails - the transaction might still be valid
+        // Save the pool data before anything else can fail
+        const event = await getEventByMintAddress(mintAddress);
+        if (event) {
+          await savePoolRecord(event.id, mintAddress, poolResult);
         }
-      } else {
-        console.log("[Light Protocol] Skipping transaction confirmation due to invalid or unknown txId");
-      }
-      
-      // Return pool data with all extracted information
-      const poolResult: TokenPoolResult = {
-        transactionId: txId,
-        merkleRoot: merkleRoot, 
-        poolAddress: poolAddress, 
-        stateTreeAddress: stateTreeAddress 
       };
       
-      // Save the pool data for future reference
-      const eventId = await getEventIdByMintAddress(mintAddress);
-      if (eventId) {
-        await savePoolData(eventId, mintAddress, poolResult);
-      }
+      await sendTransactionBatch(connection, wallet, [poolCreation, ...followUps]);
       
       console.log("[Light Protocol] Pool creation completed successfully");
       return poolResult;
     } catch (error) {
+      if (poolResult) {
+        console.error("[Light Protocol] Token pool created, but a follow-up transaction failed:", error);
+        return poolResult;
+      }
+      
       console.error("[Light Protocol] Error during pool creation:", error);
       
       // Handle common errors with better messages
@@ -217,27 +156,19 @@ export async function createTokenPool(
         if (errorMessage.includes('insufficient funds')) {
           errorMessage = "Insufficient SOL in wallet to create pool. Please add more SOL.";
         } else if (errorMessage.includes('already registered') || errorMessage.includes('already exists')) {
-          console.log("[Light Protocol] Token appears to be already registered with Light Protocol");
-          
-          // Return a successful result with placeholder values that indicate this was an existing pool
-          const poolResult: TokenPoolResult = {
-            transactionId: "existing-pool-transaction",
-            merkleRoot: "existing-merkle-root",
-            poolAddress: "existing-pool-address", 
-            stateTreeAddress: "existing-state-tree"
-          };
-          
-          // Save the successful pool data
-          const eventId = await getEventIdByMintAddress(mintAddress);
-          if (eventId) {
-            await savePoolData(eventId, mintAddress, poolResult);
+          // Another transaction may have created the pool in the meantime
+          const landed = await getTokenPoolState(mint, connection);
+          if (landed.exists) {
+            console.log("[Light Protocol] Token is already registered with Light Protocol, recording its pool");
+            const landedPool = await recordLandedPool(mintAddress, landed, connection);
+            
+            toast.success("Token Pool Verified", {
+              description: "This token is already registered with Light Protocol."
+            });
+            
+            await sendFollowUps(connection, wallet, followUps);
+            return landedPool;
           }
-          
-          toast.success("Token Pool Verified", {
-            description: "This token is already registered with Light Protocol."
-          });
-          
-          return poolResult;
         }
       }
       
@@ -253,24 +184,131 @@ export async function createTokenPool(
   }
 }
 
-// Helper functions that were missing
-async function getEventIdByMintAddress(mintAddress: string): Promise<string | null> {
-  // Query events by mint address to find the matching event
-  const { eventService } = await import('@/lib/db');
+/**
+ * Creates the token pool of an event whose pool is missing on chain, even if
+ * a pool record says otherwise. The record is rewritten to the new pool.
+ */
+export async function repairTokenPool(
+  eventId: string,
+  mintAddress: string,
+  walletPublicKey: string,
+  connection: Connection,
+  wallet: BatchWallet
+): Promise<TokenPoolResult> {
+  console.log(`[Light Protocol] Repairing token pool for mint: ${mintAddress}`);
+  const mint = new PublicKey(mintAddress);
+
+  try {
+    const poolCreation = await prepareTokenPoolCreation(mint, new PublicKey(walletPublicKey), connection);
+    const [transactionId] = await sendTransactionBatch(connection, wallet, [poolCreation]);
+
+    const poolResult: TokenPoolResult = {
+      transactionId,
+      poolAddress: CompressedTokenProgram.deriveTokenPoolPda(mint).toBase58(),
+      poolBalance: 0
+    };
+    await savePoolRecord(eventId, mintAddress, poolResult);
+
+    console.log("[Light Protocol] Token pool repaired:", transactionId);
+    return poolResult;
+  } catch (error) {
+    console.error("[Light Protocol] Error repairing token pool:", error);
+
+    let errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('insufficient funds')) {
+      errorMessage = "Insufficient SOL in wallet to create pool. Please add more SOL.";
+    }
+
+    toast.error("Pool Creation Failed", {
+      description: errorMessage
+    });
+
+    throw new Error(`Failed to repair token pool: ${errorMessage}`);
+  }
+}
+
+// Follow-ups of a pool that already exists go out on their own
+async function sendFollowUps(connection: Connection, wallet: BatchWallet, followUps: BatchTransaction[]): Promise<void> {
+  if (followUps.length === 0) {
+    return;
+  }
+  try {
+    await sendTransactionBatch(connection, wallet, followUps);
+  } catch (error) {
+    console.error("[Light Protocol] Follow-up transaction failed:", error);
+  }
+}
+
+// Record a pool found on chain. Its creation and the state tree of a supply
+// minted into it are looked up unless the record already has them.
+async function recordLandedPool(
+  mintAddress: string,
+  pool: TokenPoolState,
+  connection: Connection
+): Promise<TokenPoolResult> {
+  const event = await getEventByMintAddress(mintAddress);
+  const existingPool = event ? await poolService.getPoolByEventId(event.id) : null;
+  const recorded = existingPool?.mintAddress === mintAddress ? existingPool : null;
+
+  const landedPool: TokenPoolResult = {
+    transactionId: recorded?.transactionId || await findPoolCreationSignature(new PublicKey(pool.poolAddress), connection),
+    poolAddress: pool.poolAddress,
+    poolBalance: pool.balance
+  };
+
+  if (event) {
+    let stateTreeAddress = recorded?.stateTreeAddress;
+    if (!stateTreeAddress && pool.balance > 0 && event.claimAuthority) {
+      stateTreeAddress = await getSupplyStateTree(event.claimAuthority, mintAddress) || undefined;
+    }
+    await savePoolRecord(event.id, mintAddress, landedPool, stateTreeAddress);
+  }
+  return landedPool;
+}
+
+// The oldest signature of a pool is the transaction that created it. Pools
+// created here record their signature, so this only runs for pools found on
+// chain and gives up rather than page through a long history.
+async function findPoolCreationSignature(poolAddress: PublicKey, connection: Connection): Promise<string | undefined> {
+  let before: string | undefined;
+  for (let pages = 0; pages < MAX_SIGNATURE_PAGES; pages++) {
+    const page = await connection.getSignaturesForAddress(poolAddress, { before, limit: SIGNATURE_PAGE_SIZE });
+    if (page.length < SIGNATURE_PAGE_SIZE) {
+      return page[page.length - 1]?.signature || before;
+    }
+    before = page[page.length - 1].signature;
+  }
+  console.warn(`[Light Protocol] Pool ${poolAddress.toBase58()} has over ${MAX_SIGNATURE_PAGES * SIGNATURE_PAGE_SIZE} transactions, not looking up its creation`);
+  return undefined;
+}
+
+async function getEventByMintAddress(mintAddress: string): Promise<EventRecord | null> {
   const events = await eventService.getAllEvents();
-  const event = events.find(e => e.mintAddress === mintAddress);
-  return event ? event.id : null;
+  return events.find(e => e.mintAddress === mintAddress) || null;
 }
 
-async function savePoolData(eventId: string, mintAddress: string, poolResult: TokenPoolResult): Promise<void> {
-  // Save pool data with proper mapping to event
-  await poolService.savePool({
-    eventId,
+// An event has one pool record, replace it rather than adding another
+async function savePoolRecord(
+  eventId: string,
+  mintAddress: string,
+  poolResult: TokenPoolResult,
+  stateTreeAddress?: string
+): Promise<void> {
+  const poolData = {
     mintAddress,
     poolAddress: poolResult.poolAddress,
-    merkleRoot: poolResult.merkleRoot,
+    poolBalance: poolResult.poolBalance,
     transactionId: poolResult.transactionId,
-    createdAt: new Date().toISOString(),
-    stateTreeAddress: poolResult.stateTreeAddress 
-  });
+    stateTreeAddress
+  };
+  
+  if (await poolService.getPoolByEventId(eventId)) {
+    await poolService.updatePool(eventId, poolData);
+  } else {
+    await poolService.savePool({
+      eventId,
+      ...poolData,
+      createdAt: new Date().toISOString()
+    });
+  }
 }
@@ -0,0 +1,108 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  COMPRESSED_TOKEN_PROGRAM_ID,
+  CompressedTokenInstruction,
+  decodeCompressedTokenInstruction,
+  decodeCompressedTokenInstructions,
+  encodeCompressedTokenInstruction
+} from './programs';
+
+interface InstructionFixture {
+  programId: string;
+  keys: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string; // base64
+}
+
+// Recorded from Light's own instruction builders (compressed-token 0.21) with
+// fixed keys, so the codec is checked against the bytes the program receives
+const fixtures: Record<string, InstructionFixture> = JSON.parse(
+  readFileSync(new URL('./__fixtures__/compressedTokenInstructions.json', import.meta.url), 'utf8')
+);
+
+const PAYER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const MINT = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+const RECIPIENT = 'GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse';
+const AUTHORITY = 'EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1';
+
+const toInstruction = ({ programId, keys, data }: InstructionFixture) => new TransactionInstruction({
+  programId: new PublicKey(programId),
+  keys: keys.map(key => ({ ...key, pubkey: new PublicKey(key.pubkey) })),
+  data: Buffer.from(data, 'base64')
+});
+
+const decodeFixture = (name: string) => {
+  const decoded = decodeCompressedTokenInstruction(toInstruction(fixtures[name]));
+  if (!decoded) {
+    throw new Error(`${name} fixture is not a compressed-token instruction`);
+  }
+  return decoded;
+};
+
+describe('compressed-token instruction codec', () => {
+  it.each([
+    ['createTokenPool', CompressedTokenInstruction.CreateTokenPool],
+    ['mintTo', CompressedTokenInstruction.MintTo],
+    ['transfer', CompressedTokenInstruction.Transfer],
+    ['compress', CompressedTokenInstruction.Compress],
+    ['decompress', CompressedTokenInstruction.Decompress]
+  ])('round-trips the recorded %s instruction', (name, type) => {
+    const instruction = toInstruction(fixtures[name]);
+    const decoded = decodeFixture(name);
+    expect(decoded.type).toBe(type);
+
+    const encoded = encodeCompressedTokenInstruction(decoded);
+    expect(encoded.programId.equals(COMPRESSED_TOKEN_PROGRAM_ID)).toBe(true);
+    expect(Buffer.from(encoded.data).equals(instruction.data)).toBe(true);
+    expect(encoded.keys.map(key => ({ ...key, pubkey: key.pubkey.toBase58() }))).toEqual(fixtures[name].keys);
+  });
+
+  it('decodes the accounts of a token pool creation', () => {
+    const decoded = decodeFixture('createTokenPool');
+    expect(decoded.accounts.feePayer.pubkey.toBase58()).toBe(PAYER);
+    expect(decoded.accounts.mint.pubkey.toBase58()).toBe(MINT);
+    expect(decoded.remainingAccounts).toHaveLength(0);
+  });
+
+  it('decodes the recipients and amounts of a mint', () => {
+    const decoded = decodeFixture('mintTo');
+    if (decoded.type !== CompressedTokenInstruction.MintTo) throw new Error('Expected mintTo');
+    expect(decoded.data.recipients.map(recipient => recipient.toBase58())).toEqual([RECIPIENT, AUTHORITY]);
+    expect(decoded.data.amounts.map(amount => amount.toString())).toEqual(['1000', '5']);
+  });
+
+  it('decodes the outputs of a transfer, including the change', () => {
+    const decoded = decodeFixture('transfer');
+    if (decoded.type !== CompressedTokenInstruction.Transfer) throw new Error('Expected transfer');
+    expect(decoded.data.mint.toBase58()).toBe(MINT);
+    expect(decoded.accounts.authority.pubkey.toBase58()).toBe(AUTHORITY);
+    expect(decoded.data.outputCompressedAccounts.map(output => [output.owner.toBase58(), output.amount.toString()]))
+      .toEqual([[AUTHORITY, '9'], [RECIPIENT, '1']]);
+  });
+
+  it('tells compressions and decompressions apart by their amount', () => {
+    const compress = decodeFixture('compress');
+    const decompress = decodeFixture('decompress');
+    if (compress.type !== CompressedTokenInstruction.Compress) throw new Error('Expected compress');
+    if (decompress.type !== CompressedTokenInstruction.Decompress) throw new Error('Expected decompress');
+    expect(compress.data.compressOrDecompressAmount?.toString()).toBe('25');
+    expect(decompress.data.compressOrDecompressAmount?.toString()).toBe('12');
+    expect(decompress.data.inputTokenDataWithContext).toHaveLength(2);
+  });
+
+  it('skips instructions of other programs', () => {
+    const other = new TransactionInstruction({ programId: PublicKey.default, keys: [], data: Buffer.alloc(0) });
+    expect(decodeCompressedTokenInstruction(other)).toBeNull();
+    expect(decodeCompressedTokenInstructions([other, toInstruction(fixtures.transfer)])).toHaveLength(1);
+  });
+
+  it('rejects unknown compressed-token instructions', () => {
+    const unknown = new TransactionInstruction({
+      programId: COMPRESSED_TOKEN_PROGRAM_ID,
+      keys: [],
+      data: Buffer.alloc(8, 0xff)
+    });
+    expect(() => decodeCompressedTokenInstruction(unknown)).toThrow(/Unknown compressed-token instruction/);
+  });
+});
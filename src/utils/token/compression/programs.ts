@@ -1,85 +1,242 @@
+import { AccountMeta, TransactionInstruction } from '@solana/web3.js';
+import {
+  ADD_TOKEN_POOL_DISCRIMINATOR,
+  APPROVE_DISCRIMINATOR,
+  COMPRESS_SPL_TOKEN_ACCOUNT_DISCRIMINATOR,
+  CREATE_TOKEN_POOL_DISCRIMINATOR,
+  CompressedTokenProgram,
+  CompressedTokenInstructionDataApproveLayout,
+  CompressedTokenInstructionDataRevokeLayout,
+  CompressedTokenInstructionDataTransferLayout,
+  MINT_TO_DISCRIMINATOR,
+  REVOKE_DISCRIMINATOR,
+  TRANSFER_DISCRIMINATOR,
+  compressSplTokenAccountInstructionDataLayout,
+  encodeApproveInstructionData,
+  encodeCompressSplTokenAccountInstructionData,
+  encodeMintToInstructionData,
+  encodeRevokeInstructionData,
+  encodeTransferInstructionData,
+  mintToLayout,
+  CompressSplTokenAccountInstructionData,
+  CompressedTokenInstructionDataApprove,
+  CompressedTokenInstructionDataRevoke,
+  CompressedTokenInstructionDataTransfer,
+  MintToInstructionData
+} from '@lightprotocol/compressed-token';
 
-import { PublicKey } from '@solana/web3.js';
-import { createBuffer } from '../../buffer';
+// The deployed Light compressed-token program
+export const COMPRESSED_TOKEN_PROGRAM_ID = CompressedTokenProgram.programId;
 
-// Constants for Light Protocol compressed tokens
-export const COMPRESSED_TOKEN_PROGRAM_ID = new PublicKey('cmtDvXumGCrqC1Age74AVPhSRVXJMd8PJS91L8KbNCK');
+// Light's instruction builders target the deployed program, so use them to
+// build instructions and this module to encode and decode raw ones
+export { CompressedTokenProgram };
 
-// Basic instruction codes for the compressed token program
 export enum CompressedTokenInstruction {
-  CreatePool = 0,
-  Compress = 1,
-  Decompress = 2,
-  Transfer = 3,
+  CreateTokenPool = 'createTokenPool',
+  AddTokenPool = 'addTokenPool',
+  MintTo = 'mintTo',
+  Transfer = 'transfer',
+  Compress = 'compress',
+  Decompress = 'decompress',
+  CompressSplTokenAccount = 'compressSplTokenAccount',
+  Approve = 'approve',
+  Revoke = 'revoke',
 }
 
-// Simulated CompressedTokenProgram for dev/demo use
-export const CompressedTokenProgram = {
-  // Create a pool instruction
-  createPool: (params: any) => {
-    const data = Buffer.alloc(1);
-    data.writeUInt8(CompressedTokenInstruction.CreatePool, 0);
-    
-    return {
-      programId: COMPRESSED_TOKEN_PROGRAM_ID,
-      keys: [
-        { pubkey: params.poolAddress, isSigner: true, isWritable: true },
-        { pubkey: params.mint, isSigner: false, isWritable: false },
-        { pubkey: params.authority, isSigner: true, isWritable: true },
-      ],
-      data: createBuffer(data)
-    };
-  },
-  
-  // Compress tokens instruction
-  compress: (params: any) => {
-    const data = Buffer.alloc(9);
-    data.writeUInt8(CompressedTokenInstruction.Compress, 0);
-    data.writeBigUInt64LE(BigInt(params.amount), 1);
-    
-    return {
-      programId: COMPRESSED_TOKEN_PROGRAM_ID,
-      keys: [
-        { pubkey: params.mint, isSigner: false, isWritable: true },
-        { pubkey: params.source, isSigner: false, isWritable: true },
-        { pubkey: params.owner.publicKey, isSigner: true, isWritable: false },
-        { pubkey: params.destinationOwner, isSigner: false, isWritable: false },
-      ],
-      data: createBuffer(data)
-    };
-  },
-  
-  // Decompress tokens instruction
-  decompress: (params: any) => {
-    const data = Buffer.alloc(9);
-    data.writeUInt8(CompressedTokenInstruction.Decompress, 0);
-    data.writeBigUInt64LE(BigInt(params.amount), 1);
-    
-    return {
-      programId: COMPRESSED_TOKEN_PROGRAM_ID,
-      keys: [
-        { pubkey: params.mint, isSigner: false, isWritable: true },
-        { pubkey: params.owner.publicKey, isSigner: true, isWritable: false },
-        { pubkey: params.destination, isSigner: false, isWritable: true },
-      ],
-      data: createBuffer(data)
-    };
-  },
-  
-  // Transfer compressed tokens
-  transfer: (params: any) => {
-    const data = Buffer.alloc(9);
-    data.writeUInt8(CompressedTokenInstruction.Transfer, 0);
-    data.writeBigUInt64LE(BigInt(params.amount), 1);
-    
-    return {
-      programId: COMPRESSED_TOKEN_PROGRAM_ID,
-      keys: [
-        { pubkey: params.mint, isSigner: false, isWritable: false },
-        { pubkey: params.owner.publicKey, isSigner: true, isWritable: false },
-        { pubkey: params.recipient, isSigner: false, isWritable: false },
-      ],
-      data: createBuffer(data)
-    };
+// Accounts every instruction that touches compressed state passes, in order
+const SYSTEM_ACCOUNTS = [
+  'feePayer',
+  'authority',
+  'cpiAuthorityPda',
+  'lightSystemProgram',
+  'registeredProgramPda',
+  'noopProgram',
+  'accountCompressionAuthority',
+  'accountCompressionProgram',
+  'selfProgram',
+] as const;
+
+// Named accounts of each instruction in the order the program expects them.
+// Anything after these is a remaining account (trees, queues, recipients).
+const ACCOUNT_NAMES: Record<CompressedTokenInstruction, readonly string[]> = {
+  [CompressedTokenInstruction.CreateTokenPool]: [
+    'feePayer', 'tokenPoolPda', 'systemProgram', 'mint', 'tokenProgram', 'cpiAuthorityPda'
+  ],
+  [CompressedTokenInstruction.AddTokenPool]: [
+    'feePayer', 'tokenPoolPda', 'existingTokenPoolPda', 'systemProgram', 'mint', 'tokenProgram', 'cpiAuthorityPda'
+  ],
+  [CompressedTokenInstruction.MintTo]: [
+    'feePayer', 'authority', 'cpiAuthorityPda', 'mint', 'tokenPoolPda', 'tokenProgram',
+    'lightSystemProgram', 'registeredProgramPda', 'noopProgram', 'accountCompressionAuthority',
+    'accountCompressionProgram', 'merkleTree', 'selfProgram', 'systemProgram', 'solPoolPda'
+  ],
+  [CompressedTokenInstruction.Transfer]: [
+    ...SYSTEM_ACCOUNTS, 'tokenPoolPda', 'compressOrDecompressTokenAccount', 'tokenProgram', 'systemProgram'
+  ],
+  [CompressedTokenInstruction.Compress]: [
+    ...SYSTEM_ACCOUNTS, 'tokenPoolPda', 'compressOrDecompressTokenAccount', 'tokenProgram', 'systemProgram'
+  ],
+  [CompressedTokenInstruction.Decompress]: [
+    ...SYSTEM_ACCOUNTS, 'tokenPoolPda', 'compressOrDecompressTokenAccount', 'tokenProgram', 'systemProgram'
+  ],
+  [CompressedTokenInstruction.CompressSplTokenAccount]: [
+    ...SYSTEM_ACCOUNTS, 'tokenPoolPda', 'compressOrDecompressTokenAccount', 'tokenProgram', 'systemProgram'
+  ],
+  [CompressedTokenInstruction.Approve]: [...SYSTEM_ACCOUNTS, 'systemProgram'],
+  [CompressedTokenInstruction.Revoke]: [...SYSTEM_ACCOUNTS, 'systemProgram'],
+};
+
+interface DecodedAccounts {
+  accounts: Record<string, AccountMeta>;
+  remainingAccounts: AccountMeta[];
+}
+
+export type DecodedCompressedTokenInstruction = DecodedAccounts & (
+  | { type: CompressedTokenInstruction.CreateTokenPool; data: null }
+  | { type: CompressedTokenInstruction.AddTokenPool; data: { poolIndex: number } }
+  | { type: CompressedTokenInstruction.MintTo; data: MintToInstructionData }
+  | {
+      type: CompressedTokenInstruction.Transfer | CompressedTokenInstruction.Compress | CompressedTokenInstruction.Decompress;
+      data: CompressedTokenInstructionDataTransfer;
+    }
+  | { type: CompressedTokenInstruction.CompressSplTokenAccount; data: CompressSplTokenAccountInstructionData }
+  | { type: CompressedTokenInstruction.Approve; data: CompressedTokenInstructionDataApprove }
+  | { type: CompressedTokenInstruction.Revoke; data: CompressedTokenInstructionDataRevoke }
+);
+
+const DISCRIMINATOR_LENGTH = 8;
+
+// Transfer, approve and revoke take their arguments as one Anchor `Vec<u8>`,
+// so the data carries a u32 length after the discriminator
+const VEC_LENGTH_PREFIX = 4;
+
+const hasDiscriminator = (data: Buffer, discriminator: Buffer) =>
+  data.length >= DISCRIMINATOR_LENGTH && data.subarray(0, DISCRIMINATOR_LENGTH).equals(discriminator);
+
+const getTransferType = (data: CompressedTokenInstructionDataTransfer) => {
+  if (data.compressOrDecompressAmount === null) {
+    return CompressedTokenInstruction.Transfer;
   }
+  return data.isCompress ? CompressedTokenInstruction.Compress : CompressedTokenInstruction.Decompress;
 };
+
+const decodeAccounts = (type: CompressedTokenInstruction, keys: AccountMeta[]): DecodedAccounts => {
+  const names = ACCOUNT_NAMES[type];
+  if (keys.length < names.length) {
+    throw new Error(`${type} instruction has ${keys.length} accounts, expected at least ${names.length}`);
+  }
+
+  return {
+    accounts: Object.fromEntries(names.map((name, index) => [name, keys[index]])),
+    remainingAccounts: keys.slice(names.length)
+  };
+};
+
+const encodeAccounts = ({ type, accounts, remainingAccounts }: DecodedCompressedTokenInstruction): AccountMeta[] => [
+  ...ACCOUNT_NAMES[type].map(name => {
+    const account = accounts[name];
+    if (!account) {
+      throw new Error(`${type} instruction is missing the ${name} account`);
+    }
+    return account;
+  }),
+  ...remainingAccounts
+];
+
+/**
+ * Decodes an instruction of the compressed-token program, e.g. one read from
+ * a historical transaction. Returns null for instructions of other programs
+ * and throws for compressed-token instructions this layer doesn't know.
+ */
+export const decodeCompressedTokenInstruction = (
+  instruction: TransactionInstruction
+): DecodedCompressedTokenInstruction | null => {
+  if (!instruction.programId.equals(COMPRESSED_TOKEN_PROGRAM_ID)) {
+    return null;
+  }
+
+  const data = Buffer.from(instruction.data);
+  const args = data.subarray(DISCRIMINATOR_LENGTH);
+  const vecArgs = data.subarray(DISCRIMINATOR_LENGTH + VEC_LENGTH_PREFIX);
+
+  if (hasDiscriminator(data, CREATE_TOKEN_POOL_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.CreateTokenPool;
+    return { type, data: null, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, ADD_TOKEN_POOL_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.AddTokenPool;
+    return { type, data: { poolIndex: args.readUInt8(0) }, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, MINT_TO_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.MintTo;
+    const decoded = mintToLayout.decode(args) as MintToInstructionData;
+    return { type, data: decoded, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, TRANSFER_DISCRIMINATOR)) {
+    const decoded = CompressedTokenInstructionDataTransferLayout.decode(vecArgs) as CompressedTokenInstructionDataTransfer;
+    const type = getTransferType(decoded);
+    return { type, data: decoded, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, COMPRESS_SPL_TOKEN_ACCOUNT_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.CompressSplTokenAccount;
+    const decoded = compressSplTokenAccountInstructionDataLayout.decode(args) as CompressSplTokenAccountInstructionData;
+    return { type, data: decoded, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, APPROVE_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.Approve;
+    const decoded = CompressedTokenInstructionDataApproveLayout.decode(vecArgs) as CompressedTokenInstructionDataApprove;
+    return { type, data: decoded, ...decodeAccounts(type, instruction.keys) };
+  }
+  if (hasDiscriminator(data, REVOKE_DISCRIMINATOR)) {
+    const type = CompressedTokenInstruction.Revoke;
+    const decoded = CompressedTokenInstructionDataRevokeLayout.decode(vecArgs) as CompressedTokenInstructionDataRevoke;
+    return { type, data: decoded, ...decodeAccounts(type, instruction.keys) };
+  }
+
+  throw new Error(`Unknown compressed-token instruction discriminator ${data.subarray(0, DISCRIMINATOR_LENGTH).toString('hex')}`);
+};
+
+const encodeData = (instruction: DecodedCompressedTokenInstruction): Buffer => {
+  switch (instruction.type) {
+    case CompressedTokenInstruction.CreateTokenPool:
+      return Buffer.from(CREATE_TOKEN_POOL_DISCRIMINATOR);
+    case CompressedTokenInstruction.AddTokenPool:
+      return Buffer.concat([ADD_TOKEN_POOL_DISCRIMINATOR, Buffer.from([instruction.data.poolIndex])]);
+    case CompressedTokenInstruction.MintTo:
+      return encodeMintToInstructionData(instruction.data);
+    case CompressedTokenInstruction.Transfer:
+    case CompressedTokenInstruction.Compress:
+    case CompressedTokenInstruction.Decompress:
+      return encodeTransferInstructionData(instruction.data);
+    case CompressedTokenInstruction.CompressSplTokenAccount:
+      return encodeCompressSplTokenAccountInstructionData(instruction.data);
+    case CompressedTokenInstruction.Approve:
+      return encodeApproveInstructionData(instruction.data);
+    case CompressedTokenInstruction.Revoke:
+      return encodeRevokeInstructionData(instruction.data);
+  }
+};
+
+/**
+ * Encodes a decoded compressed-token instruction back into the exact
+ * instruction the program expects
+ */
+export const encodeCompressedTokenInstruction = (
+  instruction: DecodedCompressedTokenInstruction
+): TransactionInstruction => new TransactionInstruction({
+  programId: COMPRESSED_TOKEN_PROGRAM_ID,
+  keys: encodeAccounts(instruction),
+  data: encodeData(instruction)
+});
+
+/**
+ * Decodes every compressed-token instruction in a list, skipping other programs
+ */
+export const decodeCompressedTokenInstructions = (
+  instructions: TransactionInstruction[]
+): DecodedCompressedTokenInstruction[] =>
+  instructions
+    .map(decodeCompressedTokenInstruction)
+    .filter((instruction): instruction is DecodedCompressedTokenInstruction => instruction !== null);
+
@@ -0,0 +1,84 @@
+
+import { PublicKey } from '@solana/web3.js';
+import { ExtensionType, getExtensionData, unpackMint } from '@solana/spl-token';
+import { unpack } from '@solana/spl-token-metadata';
+import { CompressedTokenProgram } from '@lightprotocol/compressed-token';
+import { EventRecord, poolService } from '@/lib/db';
+import { getLightConnection } from '@/utils/compressionApi';
+import { TOKEN_2022_PROGRAM_ID } from '../types';
+import { buildEventTokenMetadata } from '../factory/tokenFactory';
+import { getClaimAuthorityBalance } from './supplyOperations';
+
+export interface EventSetupStatus {
+  mintCreated: boolean;
+  poolCreated: boolean;
+  supplyMinted: boolean; // Also true for events without a supply to mint
+}
+
+// The on-chain pieces an event needs, in the order setup creates them
+export const EVENT_HEALTH_CHECKS = ['mint', 'metadata', 'pool', 'supply'] as const;
+export type EventHealthCheck = typeof EVENT_HEALTH_CHECKS[number];
+
+// Whether each piece is in place. A check fails whenever one it builds on
+// does, e.g. there's no pool without a mint.
+export type EventHealth = Record<EventHealthCheck, boolean>;
+
+/**
+ * Checks an event's mint, metadata, token pool and compressed supply on
+ * chain. The saved records can't be trusted for this, as they miss steps
+ * that landed after the tab was closed and keep ones that never landed.
+ */
+export const getEventHealth = async (event: EventRecord): Promise<EventHealth> => {
+  if (!event.mintAddress) {
+    return { mint: false, metadata: false, pool: false, supply: false };
+  }
+
+  const lightConnection = getLightConnection();
+  const mint = new PublicKey(event.mintAddress);
+  const [mintAccount, poolAccount] = await lightConnection.getMultipleAccountsInfo([
+    mint,
+    CompressedTokenProgram.deriveTokenPoolPda(mint)
+  ]);
+
+  let mintData: ReturnType<typeof unpackMint> | null = null;
+  if (mintAccount && mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    try {
+      mintData = unpackMint(mint, mintAccount, TOKEN_2022_PROGRAM_ID);
+    } catch (error) {
+      console.warn(`Mint ${event.mintAddress} is not initialized:`, error);
+    }
+  }
+  if (!mintData?.isInitialized) {
+    return { mint: false, metadata: false, pool: false, supply: false };
+  }
+
+  // Every event field has to be there, the claim page rebuilds events from them
+  const metadataData = getExtensionData(ExtensionType.TokenMetadata, mintData.tlvData);
+  const metadataFields = metadataData ? unpack(metadataData).additionalMetadata.map(([field]) => field) : [];
+  const metadata = !!metadataData && buildEventTokenMetadata(mint, event, event.id, event.manifestSignature).additionalMetadata
+    .every(([field]) => metadataFields.includes(field));
+
+  const pool = !!poolAccount;
+
+  // The claim authority only ever receives the supply mint, so any balance
+  // means it landed. Once everything is claimed the recorded mint shows it.
+  let supply = event.attendeeCount <= 0;
+  if (!supply && pool) {
+    const poolRecord = await poolService.getPoolByEventId(event.id);
+    supply = !!poolRecord?.compressionTxId && poolRecord.mintAddress === event.mintAddress;
+    if (!supply && event.claimAuthority) {
+      supply = await getClaimAuthorityBalance(event.claimAuthority, event.mintAddress, event.decimals || 0) > 0;
+    }
+  }
+
+  return { mint: true, metadata, pool, supply };
+};
+
+/**
+ * Checks which event setup steps landed on chain, so an interrupted setup
+ * can skip them when it resumes
+ */
+export const getEventSetupStatus = async (event: EventRecord): Promise<EventSetupStatus> => {
+  const health = await getEventHealth(event);
+  return { mintCreated: health.mint, poolCreated: health.pool, supplyMinted: health.supply };
+};
@@ -0,0 +1,64 @@
+
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import { toast } from 'sonner';
+import { buildTx, sendAndConfirmTx } from '@lightprotocol/stateless.js';
+import { eventService } from '@/lib/db';
+import { getLightConnection } from '@/utils/compressionApi';
+
+const getFeePayer = async (eventId: string): Promise<PublicKey> => {
+  const eventData = await eventService.getEventById(eventId);
+  if (!eventData) {
+    throw new Error(`Event ${eventId} not found`);
+  }
+  if (!eventData.claimAuthority) {
+    throw new Error(`Event ${eventId} has no claim authority to pay fees from`);
+  }
+  return new PublicKey(eventData.claimAuthority);
+};
+
+/**
+ * SOL the event's claim authority holds for paying sponsored claim fees
+ */
+export const getFeePayerBalance = async (eventId: string): Promise<number> => {
+  const feePayer = await getFeePayer(eventId);
+  return getLightConnection().getBalance(feePayer);
+};
+
+/**
+ * Moves SOL from the organizer's wallet to the event's claim authority so it
+ * can pay for sponsored claims
+ */
+export const fundFeePayer = async (
+  eventId: string,
+  lamports: number,
+  organizerWallet: string,
+  signTransaction: SignerWalletAdapter['signTransaction']
+): Promise<string> => {
+  try {
+    const feePayer = await getFeePayer(eventId);
+    const organizer = new PublicKey(organizerWallet);
+    const lightConnection = getLightConnection();
+
+    console.log(`[Light Protocol] Funding fee payer ${feePayer.toBase58()} with ${lamports} lamports`);
+
+    const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+    const transaction = buildTx(
+      [SystemProgram.transfer({ fromPubkey: organizer, toPubkey: feePayer, lamports })],
+      organizer,
+      blockhash
+    );
+
+    const signedTransaction = await signTransaction(transaction);
+    const txId = await sendAndConfirmTx(lightConnection, signedTransaction, undefined, { blockhash, lastValidBlockHeight });
+
+    console.log(`[Light Protocol] Fee payer funded: ${txId}`);
+    return txId;
+  } catch (error) {
+    console.error('[Light Protocol] Error funding fee payer:', error);
+    toast.error("Funding Failed", {
+      description: error instanceof Error ? error.message : "Failed to fund the fee account"
+    });
+    throw new Error(`Failed to fund fee payer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
@@ -0,0 +1,83 @@
+
+import { PublicKey } from '@solana/web3.js';
+import { bn } from '@lightprotocol/stateless.js';
+import { eventService, poolService, claimService } from '@/lib/db';
+import { getLightConnection } from '@/utils/compressionApi';
+import { EventSupply, getSupplyTotal, summarizeSupply } from '@/utils/supply';
+
+/**
+ * Reads the compressed balance the claim authority still holds for the mint,
+ * in whole tokens
+ */
+export const getClaimAuthorityBalance = async (
+  claimAuthority: string,
+  mintAddress: string,
+  decimals: number
+): Promise<number> => {
+  const lightConnection = getLightConnection();
+  const balances = await lightConnection.getCompressedTokenBalancesByOwner(
+    new PublicKey(claimAuthority),
+    { mint: new PublicKey(mintAddress) }
+  );
+
+  const rawBalance = balances.items.reduce((sum, item) => sum.add(item.balance), bn(0));
+  return rawBalance.div(bn(10).pow(bn(decimals))).toNumber();
+};
+
+/**
+ * Finds the state tree holding the compressed supply of a mint that was
+ * minted without recording it. Claims move tokens into other trees, so this
+ * is where the claim authority's largest remaining balance sits. Returns null
+ * once the whole supply is claimed.
+ */
+export const getSupplyStateTree = async (
+  claimAuthority: string,
+  mintAddress: string
+): Promise<string | null> => {
+  const lightConnection = getLightConnection();
+  const accounts = await lightConnection.getCompressedTokenAccountsByOwner(
+    new PublicKey(claimAuthority),
+    { mint: new PublicKey(mintAddress) }
+  );
+
+  const largest = accounts.items.reduce<typeof accounts.items[number] | null>(
+    (best, account) => !best || account.parsed.amount.gt(best.parsed.amount) ? account : best,
+    null
+  );
+  return largest ? largest.compressedAccount.treeInfo.tree.toBase58() : null;
+};
+
+/**
+ * Reconciles an event's supply on chain with its confirmed claim records.
+ * Falls back to the records alone if the balance can't be read.
+ */
+export const getEventSupply = async (eventId: string): Promise<EventSupply> => {
+  const eventData = await eventService.getEventById(eventId);
+  if (!eventData) {
+    throw new Error(`Event ${eventId} not found`);
+  }
+
+  const [pool, claims] = await Promise.all([
+    poolService.getPoolByEventId(eventId),
+    claimService.getClaimsByEventId(eventId)
+  ]);
+  const total = getSupplyTotal(eventData, pool);
+
+  let onChainRemaining: number | null = null;
+  if (eventData.claimAuthority && eventData.mintAddress) {
+    try {
+      onChainRemaining = await getClaimAuthorityBalance(eventData.claimAuthority, eventData.mintAddress, eventData.decimals || 0);
+    } catch (error) {
+      console.warn(`[Light Protocol] Could not read the remaining supply for event ${eventId}:`, error);
+    }
+  }
+
+  const supply = summarizeSupply(total, claims, onChainRemaining);
+  if (!supply.isReconciled) {
+    console.warn(
+      `[Light Protocol] Supply mismatch for event ${eventId}: ${onChainRemaining} on chain, ` +
+      `${total - supply.recordedClaims} expected from ${supply.recordedClaims} confirmed claims`
+    );
+  }
+  return supply;
+};
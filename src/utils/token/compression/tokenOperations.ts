@@ -1,15 +1,36 @@
 
 import { 
-  Connection, 
+  ComputeBudgetProgram,
   Keypair, 
   PublicKey, 
-  Transaction,
-  TransactionInstruction,
-  sendAndConfirmTransaction 
+  TransactionInstruction
 } from '@solana/web3.js';
-import { TransactionSigner } from '../types';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnInstruction,
+  createCloseAccountInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import {
+  getTokenPoolInfos,
+  selectMinCompressedTokenAccountsForDecompression,
+  selectTokenPoolInfo,
+  selectTokenPoolInfosForDecompression
+} from '@lightprotocol/compressed-token';
+import {
+  bn,
+  buildTx,
+  selectStateTreeInfo,
+  sendAndConfirmTx,
+  Rpc,
+  STATE_MERKLE_TREE_NETWORK_FEE,
+  STATE_MERKLE_TREE_ROLLOVER_FEE
+} from '@lightprotocol/stateless.js';
+import bs58 from 'bs58';
+import { toast } from 'sonner';
+import { TokenTransactionRecord, tokenTransactionService } from '@/lib/db';
+import { TOKEN_2022_PROGRAM_ID, TransactionSigner } from '../types';
 import { CompressedTokenProgram } from './programs';
-import { createBuffer } from '../../buffer';
 import { getLightConnection } from '@/utils/compressionApi';
 
 /**
@@ -17,91 +38,304 @@ import { getLightConnection } from '@/utils/compressionApi';
  * This function is used to compress tokens from SPL to the compressed format
  */
 export const compress = async (
-  connection: Connection,
   payer: Keypair | TransactionSigner,
   mint: PublicKey,
   amount: number,
   owner: Keypair | TransactionSigner,
   sourceTokenAccount: PublicKey,
   recipient: PublicKey
-) => {
+): Promise<string> => {
   try {
-    console.log(`Compressing ${amount} tokens of mint ${mint.toBase58()} from ${sourceTokenAccount.toBase58()} to ${recipient.toBase58()}`);
+    console.log(`[Light Protocol] Compressing ${amount} tokens of mint ${mint.toBase58()} from ${sourceTokenAccount.toBase58()} to ${recipient.toBase58()}`);
     
-    // Get Light Protocol connection with proper Rpc type
     const lightConnection = getLightConnection();
+    const outputStateTreeInfo = selectStateTreeInfo(await lightConnection.getStateTreeInfos());
+    const tokenPoolInfo = selectTokenPoolInfo(await getTokenPoolInfos(lightConnection, mint));
     
-    // In a real implementation, we would use the Light Protocol compress function directly
-    // For this demo, we're using a simplified version with placeholder code
-    
-    // Create the compress instruction (simplified for the demo)
-    const compressParams = {
-      mint: mint,
-      amount: amount,
+    const compressInstruction = await CompressedTokenProgram.compress({
+      payer: payer.publicKey,
       owner: owner.publicKey,
       source: sourceTokenAccount,
-      destinationOwner: recipient
-    };
-    
-    // Get the instruction data
-    const compressInstructionData = CompressedTokenProgram.compress(compressParams);
-    
-    // Create a proper TransactionInstruction object
-    const compressInstruction = new TransactionInstruction({
-      programId: compressInstructionData.programId,
-      keys: compressInstructionData.keys,
-      data: compressInstructionData.data as Buffer
+      toAddress: recipient,
+      mint,
+      amount,
+      outputStateTreeInfo,
+      tokenPoolInfo
     });
     
-    // Build transaction
-    const tx = new Transaction();
-    tx.add(compressInstruction);
+    const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+    let transaction = buildTx(
+      [ComputeBudgetProgram.setComputeUnitLimit({ units: 350_000 }), compressInstruction],
+      payer.publicKey,
+      blockhash
+    );
     
-    // Send and confirm transaction
-    // In reality, signing would depend on whether owner is a Keypair or TransactionSigner
-    let txid;
-    if ('signTransaction' in owner) {
-      tx.feePayer = owner.publicKey;
-      tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
-      const signedTx = await owner.signTransaction(tx);
-      txid = await connection.sendRawTransaction(signedTx.serialize());
-    } else {
-      txid = await sendAndConfirmTransaction(connection, tx, [payer as Keypair]);
+    // Keypairs sign directly, wallets through their adapter
+    const signers = owner.publicKey.equals(payer.publicKey) ? [payer] : [payer, owner];
+    for (const signer of signers) {
+      if ('signTransaction' in signer) {
+        transaction = await signer.signTransaction(transaction);
+      } else {
+        transaction.sign([signer]);
+      }
     }
     
-    return txid;
+    return await sendAndConfirmTx(lightConnection, transaction, undefined, { blockhash, lastValidBlockHeight });
   } catch (error) {
-    console.error('Error compressing tokens:', error);
+    console.error('[Light Protocol] Error compressing tokens:', error);
+    throw new Error(`Failed to compress tokens: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Solana charges per signature; Light charges a network fee for nullifying
+// inputs and a rollover fee per compressed output account
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export type TokenAction = 'send' | 'burn';
+
+/**
+ * Estimates the fee of sending or burning `amount` of a `heldAmount`
+ * compressed balance. A partial amount leaves a change account behind,
+ * which costs one more rollover fee.
+ */
+export const estimateTokenActionFee = (action: TokenAction, amount: bigint, heldAmount: bigint): number => {
+  const changeAccounts = amount < heldAmount ? 1 : 0;
+  const outputAccounts = action === 'send' ? 1 + changeAccounts : changeAccounts;
+
+  return LAMPORTS_PER_SIGNATURE +
+    STATE_MERKLE_TREE_NETWORK_FEE.toNumber() +
+    outputAccounts * STATE_MERKLE_TREE_ROLLOVER_FEE.toNumber();
+};
+
+/**
+ * Gets the owner's compressed accounts covering `amount` and a validity proof for them
+ */
+const selectInputAccounts = async (
+  lightConnection: Rpc,
+  owner: PublicKey,
+  mint: PublicKey,
+  amount: bigint
+) => {
+  const compressedAccounts = await lightConnection.getCompressedTokenAccountsByOwner(owner, { mint });
+  const { selectedAccounts, total } = selectMinCompressedTokenAccountsForDecompression(compressedAccounts.items, bn(amount.toString()));
+  if (total.lt(bn(amount.toString()))) {
+    throw new Error(`only ${total.toString()} compressed tokens of this mint are available`);
+  }
+
+  const proof = await lightConnection.getValidityProofV0(
+    selectedAccounts.map(account => ({
+      hash: account.compressedAccount.hash,
+      tree: account.compressedAccount.treeInfo.tree,
+      queue: account.compressedAccount.treeInfo.queue
+    }))
+  );
+  return { selectedAccounts, proof };
+};
+
+/**
+ * Builds the instructions that move compressed tokens into the owner's
+ * Token-2022 associated token account, creating the account if it is missing
+ */
+const buildDecompressInstructions = async (
+  lightConnection: Rpc,
+  owner: PublicKey,
+  mint: PublicKey,
+  amount: bigint
+): Promise<{ instructions: TransactionInstruction[]; tokenAccount: PublicKey; createsTokenAccount: boolean }> => {
+  const tokenAccount = getAssociatedTokenAddressSync(mint, owner, false, TOKEN_2022_PROGRAM_ID);
+  const { selectedAccounts, proof } = await selectInputAccounts(lightConnection, owner, mint, amount);
+  const tokenPoolInfos = selectTokenPoolInfosForDecompression(
+    await getTokenPoolInfos(lightConnection, mint),
+    bn(amount.toString())
+  );
+
+  const instructions: TransactionInstruction[] = [];
+  const createsTokenAccount = !(await lightConnection.getAccountInfo(tokenAccount));
+  if (createsTokenAccount) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      tokenAccount,
+      owner,
+      mint,
+      TOKEN_2022_PROGRAM_ID
+    ));
+  }
+  instructions.push(await CompressedTokenProgram.decompress({
+    payer: owner,
+    inputCompressedTokenAccounts: selectedAccounts,
+    toAddress: tokenAccount,
+    amount: bn(amount.toString()),
+    recentInputStateRootIndices: proof.rootIndices,
+    recentValidityProof: proof.compressedProof,
+    tokenPoolInfos
+  }));
+
+  return { instructions, tokenAccount, createsTokenAccount };
+};
+
+/**
+ * Has the owner sign the instructions, records the transaction in this
+ * browser before sending it and marks the record with the outcome
+ */
+const sendTokenTransaction = async (
+  lightConnection: Rpc,
+  owner: TransactionSigner,
+  instructions: TransactionInstruction[],
+  computeUnits: number,
+  record: Pick<TokenTransactionRecord, 'type' | 'mintAddress' | 'amount' | 'destination'>
+): Promise<string> => {
+  const { blockhash, lastValidBlockHeight } = await lightConnection.getLatestBlockhash();
+  const transaction = buildTx(
+    [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }), ...instructions],
+    owner.publicKey,
+    blockhash
+  );
+  const signedTransaction = await owner.signTransaction(transaction);
+  const signature = bs58.encode(signedTransaction.signatures[0]);
+
+  const recordId = await tokenTransactionService.saveTransaction({
+    ...record,
+    walletAddress: owner.publicKey.toBase58(),
+    status: 'pending',
+    transactionId: signature,
+    createdAt: new Date().toISOString()
+  });
+
+  try {
+    await sendAndConfirmTx(lightConnection, signedTransaction, undefined, { blockhash, lastValidBlockHeight });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await tokenTransactionService.updateTransaction(recordId, { status: 'failed', errorMessage });
     throw error;
   }
+
+  await tokenTransactionService.updateTransaction(recordId, { status: 'confirmed' });
+  return signature;
 };
 
 /**
  * Decompress tokens from the state tree
- * This function is used to decompress tokens from compressed format to SPL
+ * Moves compressed tokens into the owner's Token-2022 associated token
+ * account, creating it in the same transaction if it doesn't exist yet, and
+ * records the transaction in this browser.
  */
 export const decompress = async (
-  connection: Connection,
-  payer: Keypair | TransactionSigner,
+  owner: TransactionSigner,
   mint: PublicKey,
-  amount: number,
-  owner: Keypair | TransactionSigner,
-  destinationTokenAccount: PublicKey
-) => {
+  amount: bigint
+): Promise<string> => {
   try {
-    // Get Light Protocol connection with proper Rpc type
     const lightConnection = getLightConnection();
-    
-    // In a real implementation, this would interact with Light Protocol's decompression functions
-    console.log(`Decompressing ${amount} tokens of mint ${mint.toBase58()} to ${destinationTokenAccount.toBase58()}`);
-    
-    // This is just a placeholder for the actual implementation
-    // In a real app, we would create and send a transaction to decompress tokens
-    
-    return 'simulated-transaction-id';
+    const { instructions, tokenAccount } = await buildDecompressInstructions(lightConnection, owner.publicKey, mint, amount);
+
+    console.log(`[Light Protocol] Decompressing ${amount} tokens of mint ${mint.toBase58()} to ${tokenAccount.toBase58()}`);
+
+    const signature = await sendTokenTransaction(lightConnection, owner, instructions, 350_000, {
+      type: 'decompress',
+      mintAddress: mint.toBase58(),
+      amount: amount.toString(),
+      destination: tokenAccount.toBase58()
+    });
+
+    console.log(`[Light Protocol] Decompressed tokens in transaction ${signature}`);
+    return signature;
   } catch (error) {
-    console.error('Error decompressing tokens:', error);
-    throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Light Protocol] Error decompressing tokens:', error);
+    toast.error("Decompression Failed", {
+      description: errorMessage
+    });
+    throw new Error(`Failed to decompress tokens: ${errorMessage}`);
+  }
+};
+
+/**
+ * Sends compressed tokens to another wallet with Light's compressed transfer
+ */
+export const sendCompressedTokens = async (
+  owner: TransactionSigner,
+  mint: PublicKey,
+  recipient: PublicKey,
+  amount: bigint
+): Promise<string> => {
+  try {
+    if (recipient.equals(owner.publicKey)) {
+      throw new Error('You cannot send tokens to your own wallet');
+    }
+
+    console.log(`[Light Protocol] Sending ${amount} tokens of mint ${mint.toBase58()} to ${recipient.toBase58()}`);
+
+    const lightConnection = getLightConnection();
+    const { selectedAccounts, proof } = await selectInputAccounts(lightConnection, owner.publicKey, mint, amount);
+    const transferInstruction = await CompressedTokenProgram.transfer({
+      payer: owner.publicKey,
+      inputCompressedTokenAccounts: selectedAccounts,
+      toAddress: recipient,
+      amount: bn(amount.toString()),
+      recentInputStateRootIndices: proof.rootIndices,
+      recentValidityProof: proof.compressedProof
+    });
+
+    const signature = await sendTokenTransaction(lightConnection, owner, [transferInstruction], 500_000, {
+      type: 'send',
+      mintAddress: mint.toBase58(),
+      amount: amount.toString(),
+      destination: recipient.toBase58()
+    });
+
+    console.log(`[Light Protocol] Sent tokens in transaction ${signature}`);
+    return signature;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Light Protocol] Error sending tokens:', error);
+    toast.error("Transfer Failed", {
+      description: errorMessage
+    });
+    throw new Error(`Failed to send tokens: ${errorMessage}`);
+  }
+};
+
+/**
+ * Burns compressed tokens. Light can't burn compressed tokens directly, so
+ * they are decompressed into the owner's token account and burned there in
+ * one transaction. A token account opened just for the burn is closed again
+ * so its rent comes back.
+ */
+export const burnCompressedTokens = async (
+  owner: TransactionSigner,
+  mint: PublicKey,
+  amount: bigint
+): Promise<string> => {
+  try {
+    console.log(`[Light Protocol] Burning ${amount} tokens of mint ${mint.toBase58()}`);
+
+    const lightConnection = getLightConnection();
+    const { instructions, tokenAccount, createsTokenAccount } = await buildDecompressInstructions(
+      lightConnection,
+      owner.publicKey,
+      mint,
+      amount
+    );
+    instructions.push(createBurnInstruction(tokenAccount, mint, owner.publicKey, amount, [], TOKEN_2022_PROGRAM_ID));
+    if (createsTokenAccount) {
+      instructions.push(createCloseAccountInstruction(tokenAccount, owner.publicKey, owner.publicKey, [], TOKEN_2022_PROGRAM_ID));
+    }
+
+    const signature = await sendTokenTransaction(lightConnection, owner, instructions, 400_000, {
+      type: 'burn',
+      mintAddress: mint.toBase58(),
+      amount: amount.toString()
+    });
+
+    console.log(`[Light Protocol] Burned tokens in transaction ${signature}`);
+    return signature;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Light Protocol] Error burning tokens:', error);
+    toast.error("Burn Failed", {
+      description: errorMessage
+    });
+    throw new Error(`Failed to burn tokens: ${errorMessage}`);
   }
 };
 
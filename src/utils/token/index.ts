@@ -7,8 +7,12 @@ export * from './compressionOperations'; // This now includes all compression op
 export * from './tokenMetadataUtils';
 export * from './transaction/tokenTransactionUtils';
 export * from './transaction/tokenInstructionBuilder';
+export * from './transaction/transactionBatch';
 export * from './factory/tokenFactory';
 export * from './storage/eventStorage';
+export * from './metadata/eventResolver';
+export * from './metadata/metadataRepair';
 
 // Note: We're not directly re-exporting from individual compression files
 // to avoid duplicate export conflicts with createToken
+export * from './metadata/walletTokens';
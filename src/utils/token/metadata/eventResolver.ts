@@ -0,0 +1,55 @@
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getMint, getTokenMetadata } from '@solana/spl-token';
+import { EventRecord } from '@/lib/db';
+import { TOKEN_2022_PROGRAM_ID } from '../types';
+
+/**
+ * Rebuilds an event from the Token-2022 metadata stored on its mint.
+ *
+ * `createTokenWithMetadata` writes the name, symbol and URI plus the event
+ * details as additional metadata fields, so the claim page can be rendered on
+ * a device that has never seen the event. The organizer's manifest signature
+ * is written there too, so the rebuilt event can be verified. Returns null
+ * when the mint has no metadata.
+ */
+export const resolveEventFromMint = async (
+  connection: Connection,
+  mintAddress: string
+): Promise<EventRecord | null> => {
+  try {
+    const mintPubkey = new PublicKey(mintAddress);
+    
+    const metadata = await getTokenMetadata(connection, mintPubkey, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    if (!metadata) {
+      console.warn(`No Token-2022 metadata found for mint ${mintAddress}`);
+      return null;
+    }
+    
+    const mint = await getMint(connection, mintPubkey, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    const fields = Object.fromEntries(metadata.additionalMetadata);
+    
+    const creator = metadata.updateAuthority?.toBase58() || mint.mintAuthority?.toBase58() || '';
+    
+    return {
+      id: fields.eventId || mintAddress,
+      title: metadata.name,
+      location: fields.location || '',
+      date: fields.date || '',
+      time: fields.time || '',
+      description: fields.description || '',
+      attendeeCount: parseInt(fields.supply || '0', 10) || 0,
+      symbol: metadata.symbol,
+      decimals: mint.decimals,
+      imageUrl: metadata.uri,
+      mintAddress,
+      transactionId: null,
+      createdAt: '',
+      creator,
+      manifestSignature: fields.manifestSignature
+    };
+  } catch (error) {
+    console.error('Error resolving event from mint:', error);
+    throw new Error(`Failed to resolve event from mint: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
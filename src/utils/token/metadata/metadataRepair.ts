@@ -0,0 +1,134 @@
+
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  createInitializeInstruction,
+  createUpdateFieldInstruction,
+  getMetadataPointerState,
+  getMint,
+  getTokenMetadata
+} from '@solana/spl-token';
+import { toast } from 'sonner';
+import { EventRecord } from '@/lib/db';
+import { TOKEN_2022_PROGRAM_ID, TokenMetadata } from '../types';
+import { calculateMetadataSize } from '../tokenMetadataUtils';
+import { buildEventTokenMetadata } from '../factory/tokenFactory';
+import { buildVersionedTransaction, packTokenInstructions } from '../transaction/tokenTransactionUtils';
+import { BatchTransaction, BatchWallet, sendTransactionBatch } from '../transaction/transactionBatch';
+
+/**
+ * Writes the metadata an event's mint is missing. Initializes it if the mint
+ * has none yet and adds the event fields that never landed, e.g. when the
+ * transactions after the mint creation failed. Fields already on chain are
+ * left as they are.
+ *
+ * The organizer has to sign as the mint and update authority. The mint is
+ * topped up first if its rent doesn't cover the added metadata.
+ */
+export const repairEventMetadata = async (
+  event: EventRecord,
+  walletAddress: string,
+  connection: Connection,
+  wallet: BatchWallet
+): Promise<string[]> => {
+  try {
+    if (!event.mintAddress) {
+      throw new Error('The event has no mint');
+    }
+    console.log(`Repairing the metadata of mint ${event.mintAddress}`);
+
+    const mint = new PublicKey(event.mintAddress);
+    const walletPubkey = new PublicKey(walletAddress);
+
+    const mintInfo = await getMint(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    if (!getMetadataPointerState(mintInfo)?.metadataAddress?.equals(mint)) {
+      throw new Error("The mint doesn't point to metadata on itself, so it can't hold the event details");
+    }
+
+    const existing = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    const expected = buildEventTokenMetadata(mint, event, event.id, event.manifestSignature);
+    const existingFields = existing?.additionalMetadata.map(([field]) => field) || [];
+    const missingFields = expected.additionalMetadata.filter(([field]) => !existingFields.includes(field));
+
+    const repaired: TokenMetadata = existing
+      ? {
+          ...existing,
+          additionalMetadata: [
+            ...existing.additionalMetadata.map(([field, value]): [string, string] => [field, value]),
+            ...missingFields
+          ]
+        }
+      : expected;
+
+    // Fund the account for its size once the metadata is written
+    const accountSize = calculateMetadataSize(repaired, walletPubkey);
+    const rentExemption = await connection.getMinimumBalanceForRentExemption(accountSize);
+    const mintAccount = await connection.getAccountInfo(mint, 'confirmed');
+    const shortfall = rentExemption - (mintAccount?.lamports || 0);
+
+    const setupInstructions: TransactionInstruction[] = [];
+    if (shortfall > 0) {
+      setupInstructions.push(SystemProgram.transfer({
+        fromPubkey: walletPubkey,
+        toPubkey: mint,
+        lamports: shortfall
+      }));
+    }
+    if (!existing) {
+      setupInstructions.push(createInitializeInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        mint,
+        metadata: mint,
+        name: expected.name,
+        symbol: expected.symbol,
+        uri: expected.uri,
+        mintAuthority: walletPubkey,
+        updateAuthority: walletPubkey
+      }));
+    }
+    const fieldInstructions = missingFields.map(([field, value]) =>
+      createUpdateFieldInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority: walletPubkey,
+        field,
+        value
+      })
+    );
+
+    if (setupInstructions.length + fieldInstructions.length === 0) {
+      console.log('Mint metadata is already complete');
+      return [];
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    const batch: BatchTransaction[] = packTokenInstructions(
+      [...setupInstructions, ...fieldInstructions],
+      walletPubkey,
+      setupInstructions.length
+    ).map((instructions, index, batches) => ({
+      description: `write the event details (${index + 1}/${batches.length})`,
+      transaction: buildVersionedTransaction(instructions, walletPubkey, blockhash),
+      blockhash,
+      lastValidBlockHeight
+    }));
+
+    const signatures = await sendTransactionBatch(connection, wallet, batch);
+    console.log('Mint metadata repaired:', signatures);
+    return signatures;
+  } catch (error) {
+    console.error('Error repairing token metadata:', error);
+
+    let errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('insufficient funds')) {
+      errorMessage = 'Insufficient SOL in wallet to write the metadata. Please add more SOL.';
+    } else if (errorMessage.includes('IncorrectUpdateAuthority') || errorMessage.includes('IncorrectMintAuthority')) {
+      errorMessage = "Only the event's organizer can write its metadata. Please connect the organizer wallet.";
+    }
+
+    toast.error('Metadata Repair Failed', {
+      description: errorMessage
+    });
+
+    throw new Error(`Failed to repair token metadata: ${errorMessage}`);
+  }
+};
@@ -0,0 +1,56 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getMint, getNonTransferable } from '@solana/spl-token';
+import { EventRecord } from '@/lib/db';
+import { TOKEN_2022_PROGRAM_ID } from '../types';
+import { getAllCompressedTokenAccounts } from '../compression/accountOperations';
+import { resolveEventFromMint } from './eventResolver';
+
+export interface WalletToken {
+  mintAddress: string;
+  amount: bigint; // Raw units summed over the wallet's compressed accounts for the mint
+  frozen: boolean;
+  nonTransferable: boolean; // The mint has Token-2022's NonTransferable extension
+  event: EventRecord | null; // Null when the mint carries no event metadata
+}
+
+/**
+ * Lists the compressed tokens a wallet holds, one per mint, with the event
+ * rebuilt from each mint's Token-2022 metadata.
+ *
+ * Balances come from the Light indexer rather than this browser's claim
+ * records, so tokens claimed on another device or received by airdrop are
+ * included too.
+ */
+export const getWalletTokens = async (
+  connection: Connection,
+  owner: PublicKey
+): Promise<WalletToken[]> => {
+  const accounts = await getAllCompressedTokenAccounts(owner);
+
+  const holdings = new Map<string, Omit<WalletToken, 'event' | 'nonTransferable'>>();
+  for (const account of accounts) {
+    const holding = holdings.get(account.mint) ?? { mintAddress: account.mint, amount: 0n, frozen: false };
+    holding.amount += account.amount;
+    holding.frozen = holding.frozen || account.state === 'frozen';
+    holdings.set(account.mint, holding);
+  }
+
+  return Promise.all(
+    [...holdings.values()]
+      .filter(holding => holding.amount > 0n)
+      .map(async (holding) => {
+        let event: EventRecord | null = null;
+        let nonTransferable = false;
+        try {
+          const mintPubkey = new PublicKey(holding.mintAddress);
+          const mint = await getMint(connection, mintPubkey, 'confirmed', TOKEN_2022_PROGRAM_ID);
+          nonTransferable = getNonTransferable(mint) !== null;
+          event = await resolveEventFromMint(connection, holding.mintAddress);
+        } catch (error) {
+          // Not every compressed token is a Token-2022 event mint
+          console.warn(`No event metadata for mint ${holding.mintAddress}:`, error);
+        }
+        return { ...holding, nonTransferable, event };
+      })
+  );
+};
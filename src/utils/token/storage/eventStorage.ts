@@ -1,6 +1,8 @@
 
 import { eventService } from '@/lib/db';
 import { EventDetails } from '@/utils/types';
+import { createClaimAuthority } from '../compression/claimAuthority';
+import { resolveClaimWindow } from '@/utils/claimWindow';
 
 /**
  * Saves event data to the database
@@ -10,16 +12,28 @@ export const saveEventData = async (
   mintAddress: string,
   eventDetails: EventDetails,
   creatorAddress: string,
-  transactionId: string
+  transactionId: string,
+  manifestSignature?: string
 ): Promise<void> => {
   try {
+    // Every event gets its own claim authority to hold the claimable supply
+    const claimAuthority = await createClaimAuthority(eventId);
+    
     await eventService.saveEvent({
       id: eventId, // Using string ID
       mintAddress: mintAddress,
       ...eventDetails,
+      ...resolveClaimWindow(eventDetails),
       createdAt: new Date().toISOString(),
       creator: creatorAddress,
-      transactionId: transactionId
+      transactionId: transactionId,
+      manifestSignature,
+      claimAuthority: claimAuthority.toBase58(),
+      // The mint landed, so setup can resume from the pool step
+      setup: {
+        step: 'token_created',
+        updatedAt: new Date().toISOString()
+      }
     });
     console.log('Event data saved successfully with ID:', eventId);
   } catch (error) {
@@ -1,8 +1,8 @@
 
 import { Connection } from '@solana/web3.js';
-import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
 import { TokenCreationResult, EventDetails } from './types';
-import { createTokenWithMetadata } from './factory/tokenFactory';
+import { createTokenWithMetadata, ManifestSigner } from './factory/tokenFactory';
+import { BatchWallet } from './transaction/transactionBatch';
 
 /**
  * Creates a token with metadata using Token-2022 program
@@ -11,7 +11,8 @@ export const createToken = async (
   eventDetails: EventDetails,
   walletAddress: string,
   connection: Connection,
-  signTransaction: SignerWalletAdapter['signTransaction']
+  wallet: BatchWallet,
+  signManifest?: ManifestSigner
 ): Promise<TokenCreationResult> => {
   console.log('Creating token with metadata for event:', eventDetails.title);
   console.log('Using wallet:', walletAddress);
@@ -20,6 +21,7 @@ export const createToken = async (
     eventDetails,
     walletAddress,
     connection,
-    signTransaction
+    wallet,
+    signManifest
   );
 };
@@ -13,7 +13,6 @@ import {
 } from '@solana/spl-token';
 import { TOKEN_2022_PROGRAM_ID, TokenMetadata } from './types';
 import { BufferPolyfill, createBuffer } from '../buffer';
-import { calculateMetadataSize } from './tokenMetadataUtils';
 
 // Helper to create mint instructions
 export const createMintInstructions = async (
@@ -26,9 +25,6 @@ export const createMintInstructions = async (
   const extensions = [ExtensionType.MetadataPointer];
   const baseMintLen = getMintLen(extensions);
   
-  // Calculate the total size needed using our improved function
-  const totalMintLen = calculateMetadataSize(metadata);
-  
   // Create instructions array
   const instructions: TransactionInstruction[] = [];
   
@@ -37,8 +33,8 @@ export const createMintInstructions = async (
     SystemProgram.createAccount({
       fromPubkey: walletPubkey,
       newAccountPubkey: mintKeypair,
-      space: totalMintLen, // Using calculated size
-      lamports: 1000000, // Placeholder - actual value should be calculated via getMinimumBalanceForRentExemption
+      space: baseMintLen, // Initializing the metadata reallocates the account
+      lamports: 1000000, // Placeholder - actual value should be getMinimumBalanceForRentExemption(calculateMetadataSize(metadata))
       programId: TOKEN_2022_PROGRAM_ID,
     })
   );
@@ -1,27 +1,28 @@
 
+import { PublicKey } from '@solana/web3.js';
+import { ExtensionType, getMintLen, LENGTH_SIZE, TYPE_SIZE } from '@solana/spl-token';
+import { pack } from '@solana/spl-token-metadata';
 import { TokenMetadata } from './types';
 
+// The only extension an event mint carries besides its metadata
+export const EVENT_MINT_EXTENSIONS = [ExtensionType.MetadataPointer];
+
 /**
  * Calculate the size needed for token metadata plus mint account
- * 
- * FIXED VERSION: Uses a fixed, reliable size that works consistently
+ *
+ * The mint account is created with just enough space for the mint and its
+ * extensions, and the metadata instructions reallocate it as they write. Rent
+ * has to cover the final size, so this is what to fund the account with.
  */
-export const calculateMetadataSize = (metadata: TokenMetadata): number => {
-  // For Token-2022 mints with metadata, we're using a reliable fixed size
-  // that has been tested and verified to work consistently
-  
-  // Log the metadata for debugging purposes
-  console.log('Calculating size for metadata:', {
-    name: metadata.name.length,
-    symbol: metadata.symbol.length,
-    uri: metadata.uri.length,
-    additionalFields: metadata.additionalMetadata?.length || 0
-  });
-  
-  // Return a conservative but reliable fixed size - 2KB has proven to work well
-  const RELIABLE_SIZE = 2048; // 2KB allocation
-  
-  console.log(`Using fixed reliable size of ${RELIABLE_SIZE} bytes`);
-  
-  return RELIABLE_SIZE;
+export const calculateMetadataSize = (metadata: TokenMetadata, updateAuthority?: PublicKey): number => {
+  const metadataLen = pack({
+    mint: metadata.mint,
+    updateAuthority,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri: metadata.uri,
+    additionalMetadata: metadata.additionalMetadata || []
+  }).length;
+
+  return getMintLen(EVENT_MINT_EXTENSIONS) + TYPE_SIZE + LENGTH_SIZE + metadataLen;
 };
@@ -1,73 +1,65 @@
 
-import { 
-  PublicKey, 
-  Transaction, 
-  SystemProgram, 
-  ComputeBudgetProgram 
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction
 } from '@solana/web3.js';
-import { 
-  createInitializeMintInstruction, 
-  ExtensionType, 
-  getMintLen, 
-  createInitializeMetadataPointerInstruction, 
-  TOKEN_2022_PROGRAM_ID 
+import {
+  createInitializeMintInstruction,
+  getMintLen,
+  createInitializeMetadataPointerInstruction,
+  createInitializeInstruction,
+  createUpdateFieldInstruction,
+  TOKEN_2022_PROGRAM_ID
 } from '@solana/spl-token';
-import { createInitializeInstruction } from '@solana/spl-token';
 import { TokenMetadata } from '../types';
-import { calculateMetadataSize } from '../tokenMetadataUtils';
+import { EVENT_MINT_EXTENSIONS } from '../tokenMetadataUtils';
+
+export interface TokenCreationInstructions {
+  // Create and initialize the mint, so they must land together
+  mintInstructions: TransactionInstruction[];
+  // Write the event details as additional metadata fields
+  fieldInstructions: TransactionInstruction[];
+}
 
 /**
- * Builds the transaction instructions for token creation
- * FIXED VERSION: Using reliable fixed sizes and proper initialization order
+ * Builds the instructions that create an event's Token-2022 mint with its
+ * metadata stored on the mint itself. `lamports` must cover the size after
+ * the metadata is written, see `calculateMetadataSize`.
  */
 export const buildTokenCreationInstructions = (
   mint: PublicKey,
   walletPubkey: PublicKey,
   metadata: TokenMetadata,
-  decimals: number = 0
-) => {
-  // Set compute budget for Token-2022 operations
-  const computeBudgetIx = ComputeBudgetProgram.setComputeUnitLimit({
-    units: 400000 // Reduced but sufficient
-  });
-  
-  // Set priority fee to improve chances of confirmation
-  const priorityFeeIx = ComputeBudgetProgram.setComputeUnitPrice({
-    microLamports: 50000 // Reduced but still effective
-  });
-  
-  // Use fixed reliable size
-  const accountSize = 2048; // 2KB allocation
-  console.log(`Using fixed account size of ${accountSize} bytes for Token-2022 mint account`);
-  
-  // Build instructions with precise ordering
-  return {
-    computeBudgetIx,
-    priorityFeeIx,
-    createAccountIx: SystemProgram.createAccount({
+  decimals: number,
+  lamports: number
+): TokenCreationInstructions => ({
+  mintInstructions: [
+    // The metadata isn't allocated up front, initializing it reallocates the account
+    SystemProgram.createAccount({
       fromPubkey: walletPubkey,
       newAccountPubkey: mint,
-      space: accountSize,
-      lamports: 0, // Will be updated with actual rent exemption
+      space: getMintLen(EVENT_MINT_EXTENSIONS),
+      lamports,
       programId: TOKEN_2022_PROGRAM_ID
     }),
-    initMetadataPointerIx: createInitializeMetadataPointerInstruction(
+    // Extensions have to be initialized before the mint
+    createInitializeMetadataPointerInstruction(
       mint,
       walletPubkey,
       mint, // Metadata pointer to self
       TOKEN_2022_PROGRAM_ID
     ),
-    initMintIx: createInitializeMintInstruction(
+    createInitializeMintInstruction(
       mint,
-      decimals, // For event tokens, usually 0 decimals
+      decimals,
       walletPubkey,
       null, // No freeze authority
       TOKEN_2022_PROGRAM_ID
     ),
-    // This will be used in a separate transaction
-    initMetadataIx: createInitializeInstruction({
+    createInitializeInstruction({
       programId: TOKEN_2022_PROGRAM_ID,
-      mint: mint,
+      mint,
       metadata: mint,
       name: metadata.name,
       symbol: metadata.symbol,
@@ -75,5 +67,14 @@ export const buildTokenCreationInstructions = (
       mintAuthority: walletPubkey,
       updateAuthority: walletPubkey
     })
-  };
-};
+  ],
+  fieldInstructions: (metadata.additionalMetadata || []).map(([field, value]) =>
+    createUpdateFieldInstruction({
+      programId: TOKEN_2022_PROGRAM_ID,
+      metadata: mint,
+      updateAuthority: walletPubkey,
+      field,
+      value
+    })
+  )
+});
@@ -1,63 +1,110 @@
 
-import { Connection, Transaction, PublicKey } from '@solana/web3.js';
-import { toast } from 'sonner';
+import {
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
 
 /**
- * Sends a transaction and handles confirmation with proper error handling
+ * Builds an unsigned v0 transaction paid for by `payer`
+ */
+export const buildVersionedTransaction = (
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  blockhash: string
+): VersionedTransaction => new VersionedTransaction(
+  new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions
+  }).compileToV0Message()
+);
+
+const fitsInTransaction = (instructions: TransactionInstruction[], payer: PublicKey): boolean => {
+  try {
+    // The blockhash only affects the size through its fixed 32 bytes
+    const transaction = buildVersionedTransaction(instructions, payer, PublicKey.default.toBase58());
+    return transaction.serialize().length <= PACKET_DATA_SIZE;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Splits instructions into as few transactions as fit, keeping their order.
+ * The first `atomicCount` instructions always share the first transaction so
+ * they land all-or-nothing; throws if they don't fit in one.
+ */
+export const packTokenInstructions = (
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  atomicCount: number
+): TransactionInstruction[][] => {
+  let batch = instructions.slice(0, atomicCount);
+  if (!fitsInTransaction(batch, payer)) {
+    throw new Error('The token creation instructions do not fit in a single transaction');
+  }
+
+  const batches: TransactionInstruction[][] = [];
+  for (const instruction of instructions.slice(atomicCount)) {
+    const candidate = [...batch, instruction];
+    if (fitsInTransaction(candidate, payer)) {
+      batch = candidate;
+    } else if (batch.length === 0) {
+      throw new Error('A single token instruction does not fit in a transaction');
+    } else {
+      batches.push(batch);
+      batch = [instruction];
+    }
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+/**
+ * Sends a signed transaction with preflight checks and waits until it is
+ * confirmed or its blockhash expires. Throws if it failed or expired.
  */
 export const sendAndConfirmTokenTransaction = async (
   connection: Connection,
-  transaction: Transaction,
-  walletPubkey: PublicKey
+  transaction: VersionedTransaction,
+  blockhash: string,
+  lastValidBlockHeight: number
 ): Promise<string> => {
   try {
-    console.log("Transaction prepared with", transaction.instructions.length, "instructions");
-    console.log("Instructions:", transaction.instructions.map((ix, i) => 
-      `${i}: ${ix.programId.toString().substring(0, 10)}...`).join(', '));
-    
-    // Send the transaction with optimal settings for browser environments
+    console.log("Transaction prepared with", transaction.message.compiledInstructions.length, "instructions");
+
     const txid = await connection.sendRawTransaction(transaction.serialize(), {
       skipPreflight: false, // Run preflight checks to catch potential errors early
       preflightCommitment: 'confirmed',
       maxRetries: 5
     });
-    
+
     console.log("Transaction sent with ID:", txid);
     console.log("Waiting for confirmation...");
-    
-    // Wait for confirmation with proper timeout handling
-    const confirmed = await Promise.race([
-      connection.confirmTransaction(
-        {
-          signature: txid,
-          blockhash: transaction.recentBlockhash,
-          lastValidBlockHeight: (await connection.getBlockHeight()) + 150
-        },
-        'confirmed'
-      ),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Transaction confirmation timeout')), 90000) // 90 seconds timeout
-      )
-    ]).catch(error => {
-      console.error('Confirmation error:', error);
-      return { value: { err: 'timeout' } };
-    });
-    
-    // Type check for confirmation result
-    if (confirmed && 
-        typeof confirmed === 'object' && 
-        'value' in confirmed && 
-        confirmed.value && 
-        typeof confirmed.value === 'object' && 
-        'err' in confirmed.value) {
-      throw new Error(`Transaction confirmed but failed: ${JSON.stringify(confirmed.value.err)}`);
+
+    // Resolves once confirmed and rejects once the blockhash expires, so the
+    // outcome is always known
+    const confirmation = await connection.confirmTransaction(
+      { signature: txid, blockhash, lastValidBlockHeight },
+      'confirmed'
+    );
+
+    if (confirmation.value.err) {
+      throw new Error(`Transaction confirmed but failed: ${JSON.stringify(confirmation.value.err)}`);
     }
-    
+
     console.log("Transaction confirmed successfully");
     return txid;
   } catch (error) {
     console.error('Error sending transaction:', error);
-    
+
     // Extract more specific error messages when possible
     if (error instanceof Error) {
       // Check for InvalidAccountData errors which often indicate sizing issues
@@ -65,13 +112,13 @@ export const sendAndConfirmTokenTransaction = async (
         console.error('InvalidAccountData error detected - likely an issue with account sizing');
         throw new Error('Transaction failed: Invalid account data error. This might be due to incorrect account size calculation.');
       }
-      
+
       // Check for other common errors
       if (error.message.includes('insufficient funds')) {
         throw new Error('Transaction failed: Insufficient SOL balance to complete the transaction.');
       }
     }
-    
+
     throw error;
   }
 };
@@ -0,0 +1,91 @@
+
+import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import { sendAndConfirmTokenTransaction } from './tokenTransactionUtils';
+
+/**
+ * A transaction prepared up front as one step of a multi-transaction flow
+ */
+export interface BatchTransaction {
+  description: string; // What the step does, for logs and errors
+  transaction: VersionedTransaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+  signers?: Keypair[]; // Sign after the wallet, e.g. a new mint
+  onConfirmed?: (signature: string) => void | Promise<void>; // Record what the step did
+}
+
+/**
+ * The wallet methods a batch needs. `signAllTransactions` is optional because
+ * not every wallet supports it.
+ */
+export interface BatchWallet {
+  signTransaction: SignerWalletAdapter['signTransaction'];
+  signAllTransactions?: SignerWalletAdapter['signAllTransactions'];
+}
+
+/**
+ * Gets the wallet's signature on every transaction of a flow. Uses a single
+ * `signAllTransactions` approval when the wallet supports it and falls back
+ * to one `signTransaction` prompt each otherwise. Nothing is sent here, so a
+ * declined prompt leaves the chain untouched.
+ */
+export const signTransactionBatch = async (
+  wallet: BatchWallet,
+  batch: BatchTransaction[]
+): Promise<VersionedTransaction[]> => {
+  const transactions = batch.map(step => step.transaction);
+
+  let signed: VersionedTransaction[];
+  if (wallet.signAllTransactions && batch.length > 1) {
+    console.log(`Requesting one wallet approval for ${batch.length} transactions...`);
+    signed = await wallet.signAllTransactions(transactions);
+  } else {
+    signed = [];
+    for (const [index, transaction] of transactions.entries()) {
+      console.log(`Requesting wallet signature for ${batch[index].description}...`);
+      signed.push(await wallet.signTransaction(transaction));
+    }
+  }
+
+  // Extra signers go last so the wallet is free to adjust the transactions first
+  signed.forEach((transaction, index) => {
+    const { signers } = batch[index];
+    if (signers && signers.length > 0) {
+      transaction.sign(signers);
+    }
+  });
+  return signed;
+};
+
+/**
+ * Signs a flow's transactions with one approval and submits them in order.
+ * Each transaction is confirmed before the next is sent, so later steps can
+ * depend on accounts the earlier ones create. Stops at the first failure,
+ * after every step that landed before it has run its `onConfirmed`.
+ */
+export const sendTransactionBatch = async (
+  connection: Connection,
+  wallet: BatchWallet,
+  batch: BatchTransaction[]
+): Promise<string[]> => {
+  const signed = await signTransactionBatch(wallet, batch);
+  const signatures: string[] = [];
+
+  for (const [index, step] of batch.entries()) {
+    try {
+      const signature = await sendAndConfirmTokenTransaction(
+        connection,
+        signed[index],
+        step.blockhash,
+        step.lastValidBlockHeight
+      );
+      signatures.push(signature);
+    } catch (error) {
+      throw new Error(`Failed to ${step.description}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await step.onConfirmed?.(signatures[index]);
+  }
+
+  return signatures;
+};
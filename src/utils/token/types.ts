@@ -21,10 +21,9 @@ export interface TokenCreationResult {
 }
 
 export interface TokenPoolResult {
-  transactionId: string;
-  merkleRoot: string;
-  poolAddress: string;
-  stateTreeAddress: string;
+  transactionId?: string; // Missing when the creation is no longer in the RPC's history
+  poolAddress: string; // Token pool PDA derived from the mint
+  poolBalance: number; // Raw units the pool held when it was read
 }
 
 export interface TransactionSigner {
@@ -33,15 +32,26 @@ export interface TransactionSigner {
 }
 
 // Enhanced compression types
+export interface CompressedMerkleContext {
+  merkleTree: string;
+  queue: string;
+  hash: string; // Base58 Poseidon hash of the account, its leaf in the state tree
+  proveByIndex: boolean;
+}
+
 export interface CompressedTokenAccount {
   mint: string;
   owner: string;
-  amount: number;
+  amount: bigint; // Raw units, before decimals. Kept exact, balances can pass Number.MAX_SAFE_INTEGER
   delegate?: string;
-  state?: 'initialized' | 'frozen';
-  merkleRoot?: string;
-  leafIndex?: number;
-  validityProof?: any;
+  state: 'initialized' | 'frozen';
+  merkleContext: CompressedMerkleContext;
+  leafIndex: number;
+}
+
+export interface CompressedTokenAccountPage {
+  items: CompressedTokenAccount[];
+  cursor: string | null; // Pass back to fetch the next page, null on the last page
 }
 
 export interface CompressionResult {
@@ -9,6 +9,8 @@ export interface EventDetails {
   symbol: string;
   decimals: number;
   imageUrl: string;
+  claimOpensAt?: string; // datetime-local value, defaults to the event start
+  claimClosesAt?: string; // datetime-local value, defaults to a day after opening
 }
 
 // Compression result interface
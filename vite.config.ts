@@ -1,7 +1,28 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { getAppActionsJson } from "./src/utils/solanaActions";
+
+// Blink clients look for actions.json on the app's domain, so the app serves
+// it in development and ships it with the build
+const actionsJson = (serviceUrl: string | undefined): Plugin => {
+  const source = serviceUrl && JSON.stringify(getAppActionsJson(serviceUrl), null, 2);
+  return {
+    name: "actions-json",
+    configureServer(server) {
+      if (!source) return;
+      server.middlewares.use("/actions.json", (_req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.end(source);
+      });
+    },
+    generateBundle() {
+      if (source) this.emitFile({ type: "asset", fileName: "actions.json", source });
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +32,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    actionsJson(loadEnv(mode, process.cwd(), "VITE_").VITE_CLAIM_SERVICE_URL),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),